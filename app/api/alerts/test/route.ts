@@ -0,0 +1,37 @@
+/**
+ * app/api/alerts/test/route.ts
+ * API route to send a sample alert to every configured channel
+ */
+import { NextResponse } from 'next/server';
+import { deliverAlerts, loadAlertConfig } from '@/utils/alerts';
+import { admitBatch, authenticate, deniedResponse } from '@/utils/apiAccess';
+import { withRequestLogging } from '@/utils/logger';
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+  // A test alert costs one token, so it cannot be used to flood the channels
+  const admitted = admitBatch(access.client, 1);
+  if (!admitted.ok) return deniedResponse(admitted);
+
+  const config = loadAlertConfig();
+  if (config.webhooks.length === 0 && !config.smtpUrl) {
+    return NextResponse.json({ error: 'No alert channels are configured' }, { status: 400 });
+  }
+
+  const errors = await deliverAlerts(
+    [
+      {
+        event: 'listed',
+        ip: '192.0.2.1',
+        provider: 'spamrats',
+        list: 'RATS-Spam',
+        from: 'Not on the list',
+        to: 'On the list',
+        timestamp: new Date().toISOString()
+      }
+    ],
+    config
+  );
+  return NextResponse.json({ delivered: errors.length === 0, errors }, { status: errors.length ? 502 : 200 });
+});
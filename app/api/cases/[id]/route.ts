@@ -0,0 +1,52 @@
+/**
+ * app/api/cases/[id]/route.ts
+ * API route to read, update or delete one delisting case
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { deleteCase, getCase, parseCaseUpdate, updateCase } from '@/utils/cases';
+import { readJsonBody } from '@/utils/requestBody';
+import { withRequestLogging } from '@/utils/logger';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestLogging(async (request: Request, { params }: Params) => {
+  const { id } = await params;
+  const entry = await getCase(id);
+  if (!entry) {
+    return NextResponse.json({ error: `No case ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(entry);
+});
+
+export const PATCH = withRequestLogging(async (request: Request, { params }: Params) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const { id } = await params;
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const parsed = parseCaseUpdate(json.body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const entry = await updateCase(id, parsed.value);
+  if (!entry) {
+    return NextResponse.json({ error: `No case ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(entry);
+});
+
+export const DELETE = withRequestLogging(async (request: Request, { params }: Params) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const { id } = await params;
+  if (!(await deleteCase(id))) {
+    return NextResponse.json({ error: `No case ${id}` }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+});
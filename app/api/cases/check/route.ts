@@ -0,0 +1,30 @@
+/**
+ * app/api/cases/check/route.ts
+ * API route to re-check delisting cases now: the given ids, or every case that is due
+ */
+import { NextResponse } from 'next/server';
+import { admitBatch, authenticate, deniedResponse } from '@/utils/apiAccess';
+import { casesToCheck, checkCases } from '@/utils/cases';
+import { readJsonBody } from '@/utils/requestBody';
+import { withRequestLogging } from '@/utils/logger';
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  // No body at all means every due case
+  const json = await readJsonBody(request, { optional: true });
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const { ids } = (json.body ?? {}) as Record<string, unknown>;
+  if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+    return NextResponse.json({ error: 'ids must be an array of case ids' }, { status: 400 });
+  }
+  // One lookup per case
+  const admitted = admitBatch(access.client, (await casesToCheck(ids)).length);
+  if (!admitted.ok) return deniedResponse(admitted);
+
+  const cases = await checkCases(ids);
+  return NextResponse.json({ cases });
+});
@@ -0,0 +1,31 @@
+/**
+ * app/api/cases/route.ts
+ * API route to list delisting cases and open new ones
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { createCase, listCases, parseNewCase } from '@/utils/cases';
+import { readJsonBody } from '@/utils/requestBody';
+import { withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async () => {
+  return NextResponse.json(await listCases());
+});
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const parsed = parseNewCase(json.body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { entry, created } = await createCase(parsed.value);
+  // An unresolved case for the same listing already exists
+  return NextResponse.json(entry, { status: created ? 201 : 200 });
+});
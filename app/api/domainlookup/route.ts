@@ -0,0 +1,68 @@
+/**
+ * app/api/domainlookup/route.ts
+ * API route to check every IP behind a domain's MX, A/AAAA and SPF records
+ */
+import { NextResponse } from 'next/server';
+import { iplookup } from '@/utils/iplookup';
+import { mapWithConcurrency, resolveConcurrency } from '@/utils/batch';
+import { selectProviders } from '@/utils/dnsblProviders';
+import { discoverDomain, isValidDomain } from '@/utils/domainLookup';
+import { DEFAULT_MAX_ADDRESSES } from '@/utils/ipRanges';
+import { readJsonBody } from '@/utils/requestBody';
+import { admitBatch, authenticate, deniedResponse, loadAccessConfig } from '@/utils/apiAccess';
+import { scoreRun } from '@/utils/scoring';
+import { withRequestLogging } from '@/utils/logger';
+import type { DomainLookupResponse } from '@/utils/types';
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const body = (json.body ?? {}) as Record<string, unknown>;
+  const { domain, providers: providerIds, fresh, maxAddresses } = body;
+
+  if (typeof domain !== 'string' || !isValidDomain(domain.trim().replace(/\.$/, ''))) {
+    return NextResponse.json({ error: 'A valid domain name is required' }, { status: 400 });
+  }
+  if (providerIds !== undefined && !Array.isArray(providerIds)) {
+    return NextResponse.json({ error: 'providers must be an array of provider ids' }, { status: 400 });
+  }
+  const { providers, unknown } = selectProviders(providerIds);
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown or disabled providers: ${unknown.join(', ')}` }, { status: 400 });
+  }
+  if (providers.length === 0) {
+    return NextResponse.json({ error: 'At least one DNSBL provider is required' }, { status: 400 });
+  }
+  if (fresh !== undefined && typeof fresh !== 'boolean') {
+    return NextResponse.json({ error: 'fresh must be a boolean' }, { status: 400 });
+  }
+  if (maxAddresses !== undefined && !(Number.isInteger(maxAddresses) && (maxAddresses as number) >= 1)) {
+    return NextResponse.json({ error: 'maxAddresses must be a positive integer' }, { status: 400 });
+  }
+  // SPF networks are expanded during discovery, before the per-address charge, so the cap applies up front
+  const { maxBatchSize } = loadAccessConfig();
+  if ((maxAddresses as number | undefined) !== undefined && (maxAddresses as number) > maxBatchSize) {
+    return NextResponse.json({ error: `At most ${maxBatchSize} IPs per request` }, { status: 413 });
+  }
+  const budget = (maxAddresses as number | undefined) ?? Math.min(DEFAULT_MAX_ADDRESSES, maxBatchSize);
+
+  // The discovery's own queries take one token up front, then each address found takes one more
+  const admittedDomain = admitBatch(access.client, 1);
+  if (!admittedDomain.ok) return deniedResponse(admittedDomain);
+  const discovery = await discoverDomain(domain, { fresh: fresh === true, maxAddresses: budget });
+  if (discovery.sources.length > 0) {
+    const admitted = admitBatch(access.client, discovery.sources.length);
+    if (!admitted.ok) return deniedResponse(admitted);
+  }
+  const results = await mapWithConcurrency(discovery.sources, resolveConcurrency(body.concurrency), source =>
+    iplookup(source.ip, providers, { fresh: fresh === true })
+  );
+
+  const response: DomainLookupResponse = { ...discovery, results, score: scoreRun(results.map(result => result.score)) };
+  return NextResponse.json(response);
+});
@@ -0,0 +1,48 @@
+/**
+ * app/api/export/route.ts
+ * API route to download results in an export format: either results the
+ * client already has, or a fresh lookup of the given IPs
+ */
+import { NextResponse } from 'next/server';
+import { admitBatch, authenticate, deniedResponse } from '@/utils/apiAccess';
+import { mapWithConcurrency, resolveConcurrency } from '@/utils/batch';
+import { EXPORT_FORMATS, exportResponse, isExportFormat } from '@/utils/exports';
+import { iplookup } from '@/utils/iplookup';
+import { parseLookupRequest } from '@/utils/lookupRequest';
+import { readJsonBody } from '@/utils/requestBody';
+import { isLookupResult } from '@/utils/runDiff';
+import { withRequestLogging } from '@/utils/logger';
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const format = new URL(request.url).searchParams.get('format') ?? 'csv';
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const body = (json.body ?? {}) as Record<string, unknown>;
+  if (body.results !== undefined) {
+    if (!Array.isArray(body.results) || !body.results.every(isLookupResult)) {
+      return NextResponse.json({ error: 'results must be an array of lookup results' }, { status: 400 });
+    }
+    return exportResponse(body.results, format);
+  }
+
+  const lookup = parseLookupRequest(body);
+  if (!lookup.ok) {
+    return NextResponse.json({ error: lookup.error }, { status: 400 });
+  }
+  const admitted = admitBatch(access.client, lookup.ips.length);
+  if (!admitted.ok) return deniedResponse(admitted);
+
+  const results = await mapWithConcurrency(lookup.ips, resolveConcurrency(body.concurrency), ip =>
+    iplookup(ip, lookup.providers, { fresh: lookup.fresh })
+  );
+  return exportResponse(results, format);
+});
@@ -0,0 +1,99 @@
+/**
+ * app/api/iplookup/batch/route.ts
+ * API route to look up a whole IP list with bounded concurrency, streaming
+ * each result back as NDJSON as soon as it completes
+ */
+import { NextResponse } from 'next/server';
+import { iplookup } from '@/utils/iplookup';
+import { resolveConcurrency, runWithConcurrency } from '@/utils/batch';
+import { parseLookupRequest } from '@/utils/lookupRequest';
+import { readJsonBody } from '@/utils/requestBody';
+import { admitBatch, authenticate, deniedResponse } from '@/utils/apiAccess';
+import { scoreRun } from '@/utils/scoring';
+import { withRequestLogging } from '@/utils/logger';
+import { metrics } from '@/utils/metrics';
+import type { BatchEvent, ReputationScore } from '@/utils/types';
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const body = (json.body ?? {}) as Record<string, unknown>;
+
+  const lookup = parseLookupRequest(body);
+  if (!lookup.ok) {
+    return NextResponse.json({ error: lookup.error }, { status: 400 });
+  }
+  const admitted = admitBatch(access.client, lookup.ips.length);
+  if (!admitted.ok) return deniedResponse(admitted);
+
+  const { ips, providers, fresh } = lookup;
+  const concurrency = resolveConcurrency(body.concurrency);
+  const encoder = new TextEncoder();
+  // Stops scheduling new lookups when the client disconnects or cancels
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: BatchEvent) => {
+        if (!controller.signal.aborted) {
+          streamController.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        }
+      };
+
+      let completed = 0;
+      let failed = 0;
+      const scores: ReputationScore[] = [];
+      // IPs of this batch not yet looked up; a cancelled batch releases the rest at once
+      let pending = ips.length;
+      metrics.batchRequests.inc(1);
+      metrics.batchInFlight.inc(pending);
+      send({ type: 'start', total: ips.length, concurrency });
+
+      try {
+        await runWithConcurrency(
+          ips,
+          concurrency,
+          async (ip, index) => {
+            try {
+              const result = await iplookup(ip, providers, { fresh });
+              completed++;
+              scores.push(result.score);
+              send({ type: 'result', index, result });
+            } catch (err) {
+              failed++;
+              send({ type: 'error', index, ip, error: 'Lookup failed' });
+            } finally {
+              pending--;
+              metrics.batchInFlight.inc(-1);
+            }
+          },
+          controller.signal
+        );
+      } finally {
+        metrics.batchInFlight.inc(-pending);
+        metrics.batchRequests.inc(-1);
+      }
+
+      send({ type: 'done', completed, failed, score: scoreRun(scores) });
+      if (!controller.signal.aborted) {
+        streamController.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * app/api/metrics/route.ts
+ * API route exposing the lookup service's counters, gauges and histograms in
+ * the Prometheus text format
+ */
+import { withRequestLogging } from '@/utils/logger';
+import { renderMetrics } from '@/utils/metrics';
+
+export const GET = withRequestLogging(async () => {
+  return new Response(renderMetrics(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * app/api/providers/route.ts
+ * API route listing the enabled DNSBL providers the lookup can query
+ */
+import { NextResponse } from 'next/server';
+import { getProviders, toProviderInfo } from '@/utils/dnsblProviders';
+import { withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async () => {
+  const providers = getProviders()
+    .filter(provider => provider.enabled)
+    .map(toProviderInfo);
+  return NextResponse.json(providers);
+});
@@ -0,0 +1,30 @@
+/**
+ * app/api/reports/[id]/route.ts
+ * API route to read or delete one saved report
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { deleteReport, getReport } from '@/utils/reports';
+import { withRequestLogging } from '@/utils/logger';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestLogging(async (request: Request, { params }: Params) => {
+  const { id } = await params;
+  const report = await getReport(id);
+  if (!report) {
+    return NextResponse.json({ error: `No report ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(report);
+});
+
+export const DELETE = withRequestLogging(async (request: Request, { params }: Params) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const { id } = await params;
+  if (!(await deleteReport(id))) {
+    return NextResponse.json({ error: `No report ${id}` }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,28 @@
+/**
+ * app/api/reports/route.ts
+ * API route to list saved reports and save a new one
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { listReports, parseSaveReport, saveReport } from '@/utils/reports';
+import { readJsonBody } from '@/utils/requestBody';
+import { withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async () => {
+  return NextResponse.json(await listReports());
+});
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const parsed = parseSaveReport(json.body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  return NextResponse.json(await saveReport(parsed), { status: 201 });
+});
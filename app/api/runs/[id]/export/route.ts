@@ -0,0 +1,25 @@
+/**
+ * app/api/runs/[id]/export/route.ts
+ * API route to download a saved lookup run in an export format
+ */
+import { NextResponse } from 'next/server';
+import { EXPORT_FORMATS, exportResponse, isExportFormat } from '@/utils/exports';
+import { getRun } from '@/utils/runs';
+import { withRequestLogging } from '@/utils/logger';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestLogging(async (request: Request, { params }: Params) => {
+  const { id } = await params;
+  const format = new URL(request.url).searchParams.get('format') ?? 'csv';
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: `No run ${id}` }, { status: 404 });
+  }
+  // The run's metadata dates from when it was saved
+  return exportResponse(run.results, format, run.createdAt);
+});
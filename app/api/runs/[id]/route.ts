@@ -0,0 +1,30 @@
+/**
+ * app/api/runs/[id]/route.ts
+ * API route to read or delete one saved lookup run
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { deleteRun, getRun } from '@/utils/runs';
+import { withRequestLogging } from '@/utils/logger';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestLogging(async (request: Request, { params }: Params) => {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: `No run ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(run);
+});
+
+export const DELETE = withRequestLogging(async (request: Request, { params }: Params) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const { id } = await params;
+  if (!(await deleteRun(id))) {
+    return NextResponse.json({ error: `No run ${id}` }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+});
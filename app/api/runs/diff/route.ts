@@ -0,0 +1,34 @@
+/**
+ * app/api/runs/diff/route.ts
+ * API route to compare two saved lookup runs, as JSON or as a CSV report
+ */
+import { NextResponse } from 'next/server';
+import { diffRuns, diffToCSV, snapshotResults } from '@/utils/runDiff';
+import { getRun, runSummary } from '@/utils/runs';
+import { withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const beforeId = searchParams.get('before');
+  const afterId = searchParams.get('after');
+  if (!beforeId || !afterId) {
+    return NextResponse.json({ error: 'before and after run ids are required' }, { status: 400 });
+  }
+
+  const [before, after] = await Promise.all([getRun(beforeId), getRun(afterId)]);
+  if (!before || !after) {
+    return NextResponse.json({ error: `No run ${before ? afterId : beforeId}` }, { status: 404 });
+  }
+
+  const diff = diffRuns(snapshotResults(before.results), snapshotResults(after.results));
+  if (searchParams.get('format') === 'csv') {
+    return new Response(diffToCSV(diff), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="run-diff-${before.id}-${after.id}.csv"`
+      }
+    });
+  }
+
+  return NextResponse.json({ before: runSummary(before), after: runSummary(after), diff });
+});
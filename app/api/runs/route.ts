@@ -0,0 +1,28 @@
+/**
+ * app/api/runs/route.ts
+ * API route to list saved lookup runs and save a new one
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { listRuns, parseSaveRun, saveRun } from '@/utils/runs';
+import { readJsonBody } from '@/utils/requestBody';
+import { withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async () => {
+  return NextResponse.json(await listRuns());
+});
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const parsed = parseSaveRun(json.body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  return NextResponse.json(await saveRun(parsed.name, parsed.results), { status: 201 });
+});
@@ -0,0 +1,21 @@
+/**
+ * app/api/session/route.ts
+ * API route issuing the web UI's session cookie, which keyless callers present
+ * when API_KEYS is set, along with the most IPs the UI may send per request
+ */
+import { NextResponse } from 'next/server';
+import { issueUiSession, uiBatchSize, UI_SESSION_COOKIE, UI_SESSION_TTL_SECONDS } from '@/utils/apiAccess';
+import { withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async (request: Request) => {
+  const response = NextResponse.json({ batchSize: uiBatchSize() });
+  // Strict same-site: other sites' pages cannot make the browser send it
+  response.cookies.set(UI_SESSION_COOKIE, issueUiSession(), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: new URL(request.url).protocol === 'https:',
+    path: '/api',
+    maxAge: UI_SESSION_TTL_SECONDS
+  });
+  return response;
+});
@@ -0,0 +1,39 @@
+/**
+ * app/api/watchlist/[ip]/route.ts
+ * API route to fetch the listing timeline of a watched IP, or stop watching it
+ */
+import { NextResponse } from 'next/server';
+import { authenticate, deniedResponse } from '@/utils/apiAccess';
+import { isValidIP } from '@/utils/ipValidator';
+import { getTimeline, removeFromWatchlist } from '@/utils/watchlist';
+import { withRequestLogging } from '@/utils/logger';
+
+type Params = { params: Promise<{ ip: string }> };
+
+export const GET = withRequestLogging(async (request: Request, { params }: Params) => {
+  const ip = decodeURIComponent((await params).ip);
+  if (!isValidIP(ip)) {
+    return NextResponse.json({ error: `Invalid IP address: ${ip}` }, { status: 400 });
+  }
+
+  const timeline = await getTimeline(ip);
+  if (!timeline) {
+    return NextResponse.json({ error: `${ip} is not on the watchlist` }, { status: 404 });
+  }
+  return NextResponse.json(timeline);
+});
+
+export const DELETE = withRequestLogging(async (request: Request, { params }: Params) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const ip = decodeURIComponent((await params).ip);
+  if (!isValidIP(ip)) {
+    return NextResponse.json({ error: `Invalid IP address: ${ip}` }, { status: 400 });
+  }
+
+  if (!(await removeFromWatchlist(ip))) {
+    return NextResponse.json({ error: `${ip} is not on the watchlist` }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+});
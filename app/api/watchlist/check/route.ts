@@ -0,0 +1,19 @@
+/**
+ * app/api/watchlist/check/route.ts
+ * API route to re-check the watchlist now instead of waiting for the schedule
+ */
+import { NextResponse } from 'next/server';
+import { admitBatch, authenticate, deniedResponse } from '@/utils/apiAccess';
+import { checkWatchlist, listWatchlist } from '@/utils/watchlist';
+import { withRequestLogging } from '@/utils/logger';
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+  // One lookup per watched IP
+  const admitted = admitBatch(access.client, (await listWatchlist()).length);
+  if (!admitted.ok) return deniedResponse(admitted);
+
+  const changes = await checkWatchlist();
+  return NextResponse.json({ changes });
+});
@@ -0,0 +1,51 @@
+/**
+ * app/api/watchlist/route.ts
+ * API route to list the watched IPs and add new ones
+ */
+import { NextResponse } from 'next/server';
+import { admitBatch, authenticate, deniedResponse } from '@/utils/apiAccess';
+import { parseLookupRequest } from '@/utils/lookupRequest';
+import { readJsonBody } from '@/utils/requestBody';
+import { addToWatchlist, checkWatchlist, listWatchlist } from '@/utils/watchlist';
+import { errorFields, logger, withRequestLogging } from '@/utils/logger';
+
+export const GET = withRequestLogging(async () => {
+  return NextResponse.json(await listWatchlist());
+});
+
+export const POST = withRequestLogging(async (request: Request) => {
+  const access = authenticate(request);
+  if (!access.ok) return deniedResponse(access);
+
+  const json = await readJsonBody(request);
+  if (!json.ok) {
+    return NextResponse.json({ error: json.error }, { status: 400 });
+  }
+  const body = (json.body ?? {}) as Record<string, unknown>;
+  const lookup = parseLookupRequest(body);
+  if (!lookup.ok) {
+    return NextResponse.json({ error: lookup.error }, { status: 400 });
+  }
+  if (body.label !== undefined && typeof body.label !== 'string') {
+    return NextResponse.json({ error: 'label must be a string' }, { status: 400 });
+  }
+  // New entries are checked right away, one lookup each
+  const admitted = admitBatch(access.client, lookup.ips.length);
+  if (!admitted.ok) return deniedResponse(admitted);
+
+  const added = await addToWatchlist(lookup.ips, {
+    label: body.label,
+    // Without explicit providers the entry follows the default selection
+    providers: body.providers ? lookup.providers.map(provider => provider.id) : []
+  });
+
+  // Give new entries a baseline right away instead of waiting for the schedule
+  if (added.length > 0) {
+    checkWatchlist(added.map(entry => entry.ip)).catch(err => {
+      // The scheduled run will pick them up
+      logger.warn('watchlist_check_failed', { error: errorFields(err) });
+    });
+  }
+
+  return NextResponse.json(added, { status: 201 });
+});
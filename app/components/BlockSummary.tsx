@@ -0,0 +1,56 @@
+'use client';
+
+import type { IPBlock } from '@/utils/ipRanges';
+import { allListStatuses } from '@/utils/lookupResult';
+import type { IPLookupResponse } from '@/utils/types';
+
+interface BlockSummaryProps {
+  blocks: IPBlock[];
+  results: IPLookupResponse[];
+}
+
+// Per-block counts of checked addresses and listings on each list
+export default function BlockSummary({ blocks, results }: BlockSummaryProps) {
+  const byIp = new Map(results.map(result => [result.ip, result]));
+  const lists = [...new Set(results.flatMap(result => allListStatuses(result).map(status => status.list)))];
+
+  return (
+    <div className="overflow-x-auto mb-4">
+      <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+        <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          <tr>
+            <th className="py-2 pr-4">Block</th>
+            <th className="py-2 pr-4">Checked</th>
+            {lists.map(list => (
+              <th key={list} className="py-2 pr-4">{list}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {blocks.map(block => {
+            const blockResults = block.ips
+              .map(ip => byIp.get(ip))
+              .filter((result): result is IPLookupResponse => result !== undefined);
+
+            return (
+              <tr key={block.source} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="py-2 pr-4 font-medium">{block.source}</td>
+                <td className="py-2 pr-4">{blockResults.length}/{block.ips.length}</td>
+                {lists.map(list => {
+                  const listed = blockResults.filter(result =>
+                    allListStatuses(result).some(status => status.list === list && status.status === 'On the list')
+                  ).length;
+                  return (
+                    <td key={list} className={`py-2 pr-4 ${listed > 0 ? 'text-red-600 font-medium' : ''}`}>
+                      {listed}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
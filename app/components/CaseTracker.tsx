@@ -0,0 +1,224 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CaseStatus, DelistingCase } from '@/utils/types';
+import { refreshUiSession } from './uiSession';
+
+interface CaseTrackerProps {
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const STATUS_COLORS: Record<CaseStatus, string> = {
+  open: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  requested: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  resolved: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  relisted: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300'
+};
+
+const formatTime = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+// Delisting cases with their owner, notes, remediation steps and status
+export default function CaseTracker({ showToast }: CaseTrackerProps) {
+  const [cases, setCases] = useState<DelistingCase[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, { owner: string; notes: string; step: string }>>({});
+
+  const load = useCallback(() => {
+    fetch('/api/cases')
+      .then(res => {
+        if (!res.ok) throw new Error('API error');
+        return res.json();
+      })
+      .then((data: DelistingCase[]) => setCases(data))
+      .catch(() => showToast('❌ Failed to load cases', 'error'));
+  }, [showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const replace = (entry: DelistingCase) => {
+    setCases(prev => prev.map(candidate => (candidate.id === entry.id ? entry : candidate)));
+  };
+
+  const draftFor = (entry: DelistingCase) =>
+    drafts[entry.id] ?? { owner: entry.owner ?? '', notes: entry.notes, step: '' };
+
+  const setDraft = (entry: DelistingCase, change: Partial<{ owner: string; notes: string; step: string }>) => {
+    setDrafts(prev => ({ ...prev, [entry.id]: { ...draftFor(entry), ...change } }));
+  };
+
+  const patch = async (entry: DelistingCase, body: object, message: string) => {
+    try {
+      await refreshUiSession();
+      const res = await fetch(`/api/cases/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error('API error');
+      replace(await res.json());
+      showToast(message, 'success');
+    } catch (err) {
+      showToast('❌ Failed to update case', 'error');
+    }
+  };
+
+  const save = async (entry: DelistingCase) => {
+    const draft = draftFor(entry);
+    await patch(entry, { owner: draft.owner, notes: draft.notes, step: draft.step.trim() || undefined }, '✅ Case saved');
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[entry.id];
+      return next;
+    });
+  };
+
+  const recheck = async (entry: DelistingCase) => {
+    try {
+      await refreshUiSession();
+      const res = await fetch('/api/cases/check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [entry.id] })
+      });
+      if (!res.ok) throw new Error('API error');
+      const { cases: checked } = (await res.json()) as { cases: DelistingCase[] };
+      checked.forEach(replace);
+      showToast(`🔄 ${entry.ip} re-checked`, 'success');
+    } catch (err) {
+      showToast('❌ Re-check failed', 'error');
+    }
+  };
+
+  const remove = async (entry: DelistingCase) => {
+    try {
+      await refreshUiSession();
+      const res = await fetch(`/api/cases/${entry.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('API error');
+      setCases(prev => prev.filter(candidate => candidate.id !== entry.id));
+    } catch (err) {
+      showToast('❌ Failed to delete case', 'error');
+    }
+  };
+
+  if (cases.length === 0) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400 italic text-center py-4">
+        No delisting cases. Open one from a listed entry in the results.
+      </p>
+    );
+  }
+
+  const sorted = [...cases].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  return (
+    <div className="space-y-3">
+      {sorted.map((entry) => {
+        const draft = draftFor(entry);
+        return (
+          <div key={entry.id} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+            <button
+              className="w-full text-left flex justify-between items-center px-4 py-3 bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700"
+              onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+            >
+              <span className="flex items-center space-x-3">
+                <span className={`text-xs px-2 py-0.5 rounded ${STATUS_COLORS[entry.status]}`}>{entry.status}</span>
+                <span className="font-semibold text-gray-800 dark:text-gray-200">{entry.ip}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">{entry.list}</span>
+                {entry.owner && <span className="text-sm text-gray-500 dark:text-gray-400">· {entry.owner}</span>}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">{expanded === entry.id ? '▼' : '▶'}</span>
+            </button>
+            {expanded === entry.id && (
+              <div className="p-4 space-y-3 text-sm text-gray-700 dark:text-gray-300 border-t border-gray-200 dark:border-gray-600">
+                {entry.reason && <p className="text-gray-500 dark:text-gray-400 break-words">{entry.reason}</p>}
+                {entry.delistUrl && (
+                  <a href={entry.delistUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                    Request delisting
+                  </a>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Opened {formatTime(entry.createdAt)} · Delist requested {formatTime(entry.delistRequestedAt)} · Last
+                  checked {formatTime(entry.lastCheckedAt)}
+                  {entry.lastStatus && ` (${entry.lastStatus})`} · Next check {formatTime(entry.nextCheckAt)}
+                </p>
+                <label className="block">
+                  Owner
+                  <input
+                    type="text"
+                    value={draft.owner}
+                    onChange={(e) => setDraft(entry, { owner: e.target.value })}
+                    className="mt-1 w-full border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+                  />
+                </label>
+                <label className="block">
+                  Notes
+                  <textarea
+                    value={draft.notes}
+                    onChange={(e) => setDraft(entry, { notes: e.target.value })}
+                    className="mt-1 w-full h-20 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+                  />
+                </label>
+                <div>
+                  Remediation steps
+                  {entry.remediation.length > 0 ? (
+                    <ol className="list-decimal list-inside text-gray-600 dark:text-gray-400">
+                      {entry.remediation.map((step, index) => (
+                        <li key={index}>{step}</li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p className="italic text-gray-500 dark:text-gray-400">None yet</p>
+                  )}
+                  <input
+                    type="text"
+                    value={draft.step}
+                    onChange={(e) => setDraft(entry, { step: e.target.value })}
+                    placeholder="Add a step, e.g. Disabled compromised mailbox"
+                    className="mt-1 w-full border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => save(entry)} className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+                    Save
+                  </button>
+                  {(entry.status === 'open' || entry.status === 'relisted') && (
+                    <button
+                      onClick={() => patch(entry, { status: 'requested' }, '✅ Delisting requested')}
+                      className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700"
+                    >
+                      Mark delist requested
+                    </button>
+                  )}
+                  <select
+                    value={entry.status}
+                    onChange={(e) => patch(entry, { status: e.target.value }, '✅ Status updated')}
+                    className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+                  >
+                    {(['open', 'requested', 'resolved', 'relisted'] as const).map((status) => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => recheck(entry)} className="px-3 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600">
+                    Re-check now
+                  </button>
+                  <button onClick={() => remove(entry)} className="px-3 py-1 text-red-600 hover:underline">
+                    Delete
+                  </button>
+                </div>
+                <ul className="text-xs text-gray-500 dark:text-gray-400">
+                  {entry.history.map((event, index) => (
+                    <li key={index}>
+                      {formatTime(event.at)}: {event.note}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
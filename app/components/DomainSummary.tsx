@@ -0,0 +1,57 @@
+'use client';
+
+import { SPF_LOOKUP_LIMIT } from '@/utils/spf';
+import type { DomainLookupResponse } from '@/utils/types';
+
+interface DomainSummaryProps {
+  report: Omit<DomainLookupResponse, 'results'>;
+}
+
+// MX hosts, SPF policy and discovery problems for a domain lookup
+export default function DomainSummary({ report }: DomainSummaryProps) {
+  const { spf } = report;
+  const problems = [...report.errors, ...spf.errors];
+
+  return (
+    <div className="mb-4 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-2">
+      <p className="font-semibold">{report.domain}</p>
+      <p>
+        MX:{' '}
+        {report.mx.length > 0
+          ? report.mx.map(({ exchange, priority }) => `${exchange} (${priority})`).join(', ')
+          : <span className="italic text-gray-500 dark:text-gray-400">none</span>}
+      </p>
+      <p className="break-all">
+        SPF:{' '}
+        {spf.record
+          ? <code className="text-xs">{spf.record}</code>
+          : <span className="italic text-gray-500 dark:text-gray-400">none</span>}
+      </p>
+      {spf.record && (
+        <p className={spf.limitExceeded ? 'text-red-600 font-medium' : ''}>
+          {spf.lookups} of {SPF_LOOKUP_LIMIT} DNS lookups
+          {spf.limitExceeded && ' — over the RFC 7208 limit; receivers will treat this policy as a permerror'}
+        </p>
+      )}
+      {spf.records.length > 1 && (
+        <details>
+          <summary className="cursor-pointer">Included records ({spf.records.length - 1})</summary>
+          <ul className="mt-1 space-y-1">
+            {spf.records.slice(1).map(({ domain, record }) => (
+              <li key={domain} className="break-all">
+                <span className="font-medium">{domain}</span>: <code className="text-xs">{record}</code>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {problems.length > 0 && (
+        <ul className="text-amber-600">
+          {problems.map(problem => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
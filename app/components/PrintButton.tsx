@@ -0,0 +1,13 @@
+'use client';
+
+// Opens the browser's print dialog; hidden on the printed page itself
+export default function PrintButton() {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 print:hidden"
+    >
+      Print
+    </button>
+  );
+}
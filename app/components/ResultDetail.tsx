@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect } from 'react';
+import { COMPLIANCE_CHECKS, COMPLIANCE_LABELS, formatOutcome } from '@/utils/lookupResult';
+import type { IPLookupResponse, ListStatus } from '@/utils/types';
+import { bandColor, checkColor, listColor } from './outcomeColors';
+
+interface ResultDetailProps {
+  result: IPLookupResponse;
+  // Where a domain lookup found the IP
+  origins?: string[];
+  onClose: () => void;
+  // Opens a delisting case for a listed entry; the button is hidden without it
+  onOpenCase?: (result: IPLookupResponse, provider: string, status: ListStatus) => void;
+}
+
+// Full card for one result, shown as a drawer next to the results table
+export default function ResultDetail({ result, origins, onClose, onOpenCase }: ResultDetailProps) {
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full overflow-y-auto bg-white dark:bg-gray-700 p-4 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+            Information about {result.ip}
+            <span className="ml-2 align-middle text-xs px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300">
+              IPv{result.family}
+            </span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="ml-4 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Below is the information we have on record about {result.ip}
+        </p>
+        <p className="mt-2 text-gray-700 dark:text-gray-300">
+          Reputation score{' '}
+          <span className={`px-2 py-0.5 rounded font-semibold ${bandColor(result.score.band)}`}>
+            {result.score.value} · {result.score.band}
+          </span>
+        </p>
+        {result.score.factors.length > 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {result.score.factors.map(factor => `${factor.name} +${factor.weight}`).join(', ')}
+          </p>
+        )}
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Resolver: {result.resolver}
+          {result.cached && ` · from cache (${result.cacheAge}s old)`}
+        </p>
+        {origins && (
+          <>
+            <h4 className="text-md font-medium mt-4 text-gray-700 dark:text-gray-300">
+              Found via
+            </h4>
+            <ul className="text-sm text-gray-600 dark:text-gray-400 break-all">
+              {origins.map(origin => (
+                <li key={origin}>{origin}</li>
+              ))}
+            </ul>
+          </>
+        )}
+        <h4 className="text-md font-medium mt-4 text-gray-700 dark:text-gray-300">
+          Standards Compliance
+        </h4>
+        <p className="text-gray-600 dark:text-gray-400 break-all">
+          PTR:{' '}
+          {result.standardsCompliance.hostnames.length > 0
+            ? result.standardsCompliance.hostnames.join(', ')
+            : <span className="italic">none</span>}
+        </p>
+        {COMPLIANCE_CHECKS.map((check) => (
+          <p key={check} className="text-gray-600 dark:text-gray-400">
+            {COMPLIANCE_LABELS[check]}...{' '}
+            <span className={`font-medium ${checkColor(result.standardsCompliance[check])}`}>
+              {formatOutcome(result.standardsCompliance[check], result.standardsCompliance.errorCodes?.[check])}
+            </span>
+          </p>
+        ))}
+        {result.standardsCompliance.namingReasons && (
+          <ul className="text-sm text-red-600 list-disc list-inside break-all">
+            {result.standardsCompliance.namingReasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+        <h4 className="text-md font-medium mt-4 text-gray-700 dark:text-gray-300">
+          List Status
+        </h4>
+        {result.providers.map((provider) => (
+          <div key={provider.provider} className="mt-2">
+            <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+              {provider.name} <span className="font-normal text-gray-500 dark:text-gray-400">({provider.zone})</span>
+            </p>
+            {provider.skipped && (
+              <p className="text-gray-500 dark:text-gray-400 italic">{provider.skipped}</p>
+            )}
+            {provider.listStatuses.map((status) => (
+              <div key={status.list}>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {status.list} -{' '}
+                  <span className={`font-medium ${listColor(status.status)}`}>
+                    {formatOutcome(status.status, status.errorCode)}
+                  </span>
+                  {status.returnCode && (
+                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({status.returnCode})</span>
+                  )}
+                </p>
+                {status.reason && (
+                  <p className="ml-4 text-sm text-gray-500 dark:text-gray-400 break-words">{status.reason}</p>
+                )}
+                {status.delistUrl && (
+                  <a
+                    href={status.delistUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-4 text-sm text-blue-600 hover:underline break-all"
+                  >
+                    Request delisting
+                  </a>
+                )}
+                {onOpenCase && status.status === 'On the list' && (
+                  <button
+                    onClick={() => onOpenCase(result, provider.provider, status)}
+                    className="ml-4 text-sm text-blue-600 hover:underline"
+                  >
+                    Open case
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ipv6Nibbles } from '@/utils/ipValidator';
+import {
+  COMPLIANCE_CHECKS,
+  COMPLIANCE_LABELS,
+  formatOutcome,
+  hasLookupErrors,
+  isOnAnyList
+} from '@/utils/lookupResult';
+import { scoreRun, SEVERITY_BANDS } from '@/utils/scoring';
+import type { CheckOutcome, ComplianceCheck, IPLookupResponse, ListOutcome, ListStatus } from '@/utils/types';
+import { bandColor, checkColor, listColor } from './outcomeColors';
+
+interface ResultsTableProps {
+  results: IPLookupResponse[];
+  selectedIp: string | null;
+  onSelect: (ip: string) => void;
+}
+
+interface ListColumn {
+  // provider:list, unique across providers
+  key: string;
+  provider: string;
+  providerName: string;
+  list: string;
+}
+
+interface Row {
+  result: IPLookupResponse;
+  // Sorts addresses numerically: family, then zero-padded octets or nibbles
+  ipKey: string;
+  ptr: string;
+  lists: Record<string, ListStatus>;
+}
+
+type SortKey = 'ip' | 'ptr' | 'score' | ComplianceCheck | `list:${string}`;
+
+// Rows are a fixed height so only the visible window needs rendering
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 10;
+
+// Worse outcomes rank higher, so a descending sort puts problems first
+const LIST_RANK: Record<ListOutcome, number> = { 'Not on the list': 0, Error: 1, 'On the list': 2 };
+const CHECK_RANK: Record<CheckOutcome, number> = { 'Passed!': 0, Error: 1, 'Failed!': 2 };
+
+const SHORT_LIST: Record<ListOutcome, string> = { 'On the list': 'Listed', 'Not on the list': '—', Error: 'Error' };
+const SHORT_CHECK: Record<CheckOutcome, string> = { 'Passed!': 'Pass', 'Failed!': 'Fail', Error: 'Error' };
+
+function ipSortKey(result: IPLookupResponse): string {
+  return result.family === 4
+    ? `4${result.ip.split('.').map(octet => octet.padStart(3, '0')).join('')}`
+    : `6${ipv6Nibbles(result.ip).join('')}`;
+}
+
+function compareRows(a: Row, b: Row, key: SortKey): number {
+  if (key === 'ip') return a.ipKey < b.ipKey ? -1 : a.ipKey > b.ipKey ? 1 : 0;
+  if (key === 'ptr') return a.ptr.localeCompare(b.ptr);
+  if (key === 'score') return a.result.score.value - b.result.score.value;
+  if (key.startsWith('list:')) {
+    const list = key.slice('list:'.length);
+    return (LIST_RANK[a.lists[list]?.status] ?? -1) - (LIST_RANK[b.lists[list]?.status] ?? -1);
+  }
+  const check = key as ComplianceCheck;
+  return CHECK_RANK[a.result.standardsCompliance[check]] - CHECK_RANK[b.result.standardsCompliance[check]];
+}
+
+// Sortable, filterable results with one column per list and compliance check
+export default function ResultsTable({ results, selectedIp, onSelect }: ResultsTableProps) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'ip', descending: false });
+  const [filter, setFilter] = useState<string>('all');
+  const [search, setSearch] = useState<string>('');
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  const listColumns = useMemo(() => {
+    const columns = new Map<string, ListColumn>();
+    for (const result of results) {
+      for (const provider of result.providers) {
+        for (const status of provider.listStatuses) {
+          const key = `${provider.provider}:${status.list}`;
+          if (!columns.has(key)) {
+            columns.set(key, { key, provider: provider.provider, providerName: provider.name, list: status.list });
+          }
+        }
+      }
+    }
+    return [...columns.values()];
+  }, [results]);
+
+  const rows = useMemo(
+    (): Row[] =>
+      results.map(result => ({
+        result,
+        ipKey: ipSortKey(result),
+        ptr: result.standardsCompliance.hostnames.join(', '),
+        lists: Object.fromEntries(
+          result.providers.flatMap(provider =>
+            provider.listStatuses.map(status => [`${provider.provider}:${status.list}`, status])
+          )
+        )
+      })),
+    [results]
+  );
+
+  const runScore = useMemo(() => scoreRun(results.map(result => result.score)), [results]);
+
+  const visibleRows = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    const matches = rows.filter(row => {
+      if (needle && !row.result.ip.includes(needle) && !row.ptr.toLowerCase().includes(needle)) return false;
+      if (filter === 'listed') return isOnAnyList(row.result);
+      if (filter === 'clean') return !isOnAnyList(row.result) && !hasLookupErrors(row.result);
+      if (filter === 'errors') return hasLookupErrors(row.result);
+      if (filter.startsWith('band:')) return row.result.score.band === filter.slice('band:'.length);
+      if (filter.startsWith('list:')) return row.lists[filter.slice('list:'.length)]?.status === 'On the list';
+      if (filter.startsWith('check:')) {
+        return row.result.standardsCompliance[filter.slice('check:'.length) as ComplianceCheck] === 'Failed!';
+      }
+      return true;
+    });
+    const direction = sort.descending ? -1 : 1;
+    return matches.sort((a, b) => direction * compareRows(a, b, sort.key) || compareRows(a, b, 'ip'));
+  }, [rows, search, filter, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'ip' && key !== 'ptr' }));
+  };
+
+  const columnCount = 3 + COMPLIANCE_CHECKS.length + listColumns.length;
+  const gridTemplateColumns = `minmax(9rem, 1.2fr) minmax(12rem, 2fr) minmax(6rem, 0.8fr) repeat(${columnCount - 3}, minmax(6.5rem, 1fr))`;
+  const minWidth = `${9 + 12 + 6 + (columnCount - 3) * 6.5}rem`;
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const header = (key: SortKey, label: string, title?: string) => (
+    <button
+      key={key}
+      onClick={() => toggleSort(key)}
+      className="text-left px-2 truncate uppercase hover:text-gray-700 dark:hover:text-gray-200"
+      title={title ?? label}
+    >
+      {label}
+      {sort.key === key && (sort.descending ? ' ▼' : ' ▲')}
+    </button>
+  );
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap gap-2 mb-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search IP or PTR"
+          className="flex-1 min-w-[12rem] border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-sm dark:bg-gray-700 dark:text-white"
+        />
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-sm dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All results</option>
+          <option value="listed">Listed on any list</option>
+          <option value="clean">Not listed, no errors</option>
+          <option value="errors">DNS errors</option>
+          {SEVERITY_BANDS.map(band => (
+            <option key={band} value={`band:${band}`}>
+              Severity: {band}
+            </option>
+          ))}
+          {listColumns.map(column => (
+            <option key={column.key} value={`list:${column.key}`}>
+              Listed on {column.list}
+            </option>
+          ))}
+          {COMPLIANCE_CHECKS.map(check => (
+            <option key={check} value={`check:${check}`}>
+              Failed {COMPLIANCE_LABELS[check].toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+        Showing {visibleRows.length} of {results.length} results · Run score: average {runScore.average}, worst{' '}
+        {runScore.max} <span className={`px-1 rounded ${bandColor(runScore.band)}`}>{runScore.band}</span>
+        {SEVERITY_BANDS.filter(band => band !== 'clean' && runScore.bands[band] > 0).map(band => (
+          <span key={band}>
+            {' '}
+            · {runScore.bands[band]} {band}
+          </span>
+        ))}
+      </p>
+      <div
+        className="overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div
+          className="sticky top-0 z-10 grid items-center h-9 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700"
+          style={{ gridTemplateColumns, minWidth }}
+        >
+          {header('ip', 'IP')}
+          {header('ptr', 'PTR')}
+          {header('score', 'Score', 'Reputation score, 0 (clean) to 100')}
+          {COMPLIANCE_CHECKS.map(check => header(check, COMPLIANCE_LABELS[check]))}
+          {listColumns.map(column => header(`list:${column.key}`, column.list, `${column.providerName}: ${column.list}`))}
+        </div>
+        <div className="relative" style={{ height: visibleRows.length * ROW_HEIGHT, minWidth }}>
+          {visibleRows.slice(first, last).map((row, offset) => {
+            const { result } = row;
+            return (
+              <div
+                key={result.ip}
+                onClick={() => onSelect(result.ip)}
+                className={`absolute left-0 right-0 grid items-center text-sm cursor-pointer border-b border-gray-100 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                  selectedIp === result.ip ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                }`}
+                style={{ top: (first + offset) * ROW_HEIGHT, height: ROW_HEIGHT, gridTemplateColumns }}
+              >
+                <span className="px-2 font-medium text-gray-800 dark:text-gray-200 truncate">{result.ip}</span>
+                <span className="px-2 text-gray-600 dark:text-gray-400 truncate" title={row.ptr}>
+                  {row.ptr || '—'}
+                </span>
+                <span className="px-2 truncate" title={result.score.factors.map(factor => `${factor.name} +${factor.weight}`).join(', ')}>
+                  <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${bandColor(result.score.band)}`}>
+                    {result.score.value}
+                  </span>
+                </span>
+                {COMPLIANCE_CHECKS.map(check => {
+                  const outcome = result.standardsCompliance[check];
+                  return (
+                    <span
+                      key={check}
+                      className={`px-2 truncate ${checkColor(outcome)}`}
+                      title={formatOutcome(outcome, result.standardsCompliance.errorCodes?.[check])}
+                    >
+                      {SHORT_CHECK[outcome]}
+                    </span>
+                  );
+                })}
+                {listColumns.map(column => {
+                  const status = row.lists[column.key];
+                  return status ? (
+                    <span
+                      key={column.key}
+                      className={`px-2 truncate ${listColor(status.status)}`}
+                      title={[formatOutcome(status.status, status.errorCode), status.reason].filter(Boolean).join(': ')}
+                    >
+                      {SHORT_LIST[status.status]}
+                    </span>
+                  ) : (
+                    <span key={column.key} className="px-2 text-gray-400" title="Not checked">
+                      n/a
+                    </span>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { changeLabel, diffRuns, diffToCSV, parseRunExport, snapshotResults, type RunSnapshot } from '@/utils/runDiff';
+import type { IPLookupResponse, RunChange, SavedRun, SavedRunSummary } from '@/utils/types';
+import { refreshUiSession } from './uiSession';
+
+interface RunComparisonProps {
+  results: IPLookupResponse[];
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+interface Baseline {
+  label: string;
+  snapshots: RunSnapshot[];
+}
+
+// Save the current run, and compare it with a saved run or a re-imported export
+export default function RunComparison({ results, showToast }: RunComparisonProps) {
+  const [runs, setRuns] = useState<SavedRunSummary[]>([]);
+  const [runName, setRunName] = useState<string>('');
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+
+  useEffect(() => {
+    fetch('/api/runs')
+      .then(res => (res.ok ? res.json() : []))
+      .then((data: SavedRunSummary[]) => setRuns(data))
+      .catch(() => setRuns([]));
+  }, []);
+
+  const diff = useMemo(
+    () => (baseline ? diffRuns(baseline.snapshots, snapshotResults(results)) : null),
+    [baseline, results]
+  );
+
+  const saveRun = async () => {
+    try {
+      await refreshUiSession();
+      const res = await fetch('/api/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: runName || undefined, results })
+      });
+      if (!res.ok) throw new Error('API error');
+      const summary: SavedRunSummary = await res.json();
+      setRuns(prev => [summary, ...prev]);
+      setRunName('');
+      showToast(`💾 Saved "${summary.name}"`, 'success');
+    } catch (err) {
+      showToast('❌ Failed to save run', 'error');
+    }
+  };
+
+  const compareWithRun = async (id: string) => {
+    if (!id) {
+      setBaseline(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/runs/${id}`);
+      if (!res.ok) throw new Error('API error');
+      const run: SavedRun = await res.json();
+      setBaseline({
+        label: `${run.name} (${new Date(run.createdAt).toLocaleString()})`,
+        snapshots: snapshotResults(run.results)
+      });
+    } catch (err) {
+      showToast('❌ Failed to load run', 'error');
+    }
+  };
+
+  const importExport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        setBaseline({ label: file.name, snapshots: parseRunExport(event.target?.result as string) });
+      } catch (err) {
+        showToast(`❌ ${(err as Error).message}`, 'error');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const exportDiff = () => {
+    if (!diff) return;
+    const blob = new Blob([diffToCSV(diff)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `ip_lookup_diff_${new Date().toISOString().slice(0, 10)}.csv`);
+    link.click();
+  };
+
+  const changeList = (title: string, changes: RunChange[], color: string) =>
+    changes.length > 0 && (
+      <details className="mt-2">
+        <summary className={`cursor-pointer font-medium ${color}`}>
+          {title} ({changes.length})
+        </summary>
+        <ul className="ml-4 text-gray-600 dark:text-gray-400">
+          {changes.map((change) => (
+            <li key={`${change.ip}:${change.kind}:${change.name}`}>
+              {change.ip} · {changeLabel(change)}: {change.from} → {change.to}
+            </li>
+          ))}
+        </ul>
+      </details>
+    );
+
+  const ipList = (title: string, ips: string[]) =>
+    ips.length > 0 && (
+      <details className="mt-2">
+        <summary className="cursor-pointer font-medium text-gray-700 dark:text-gray-300">
+          {title} ({ips.length})
+        </summary>
+        <p className="ml-4 text-gray-600 dark:text-gray-400 break-all">{ips.join(', ')}</p>
+      </details>
+    );
+
+  const unchanged =
+    diff &&
+    diff.added.length + diff.removed.length + diff.listed.length + diff.delisted.length + diff.compliance.length === 0;
+
+  return (
+    <div className="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+      <h3 className="font-medium text-gray-700 dark:text-gray-300 mb-2">Compare runs</h3>
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="text"
+          value={runName}
+          onChange={(e) => setRunName(e.target.value)}
+          placeholder="Run name, e.g. Weekly relays"
+          className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+        />
+        <button onClick={saveRun} className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+          Save run
+        </button>
+        <select
+          defaultValue=""
+          onChange={(e) => compareWithRun(e.target.value)}
+          className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">Compare with a saved run...</option>
+          {runs.map((run) => (
+            <option key={run.id} value={run.id}>
+              {run.name} · {new Date(run.createdAt).toLocaleString()} · {run.count} IPs
+            </option>
+          ))}
+        </select>
+        <label className="px-3 py-1 bg-gray-200 dark:bg-gray-700 rounded cursor-pointer hover:bg-gray-300 dark:hover:bg-gray-600">
+          Import previous export
+          <input type="file" accept=".csv,.json,.ndjson" onChange={importExport} className="hidden" />
+        </label>
+      </div>
+      {baseline && diff && (
+        <div className="mt-3">
+          <p className="text-gray-600 dark:text-gray-400">
+            Compared with {baseline.label}: {diff.listed.length} newly listed, {diff.delisted.length} delisted,{' '}
+            {diff.compliance.length} compliance changes, {diff.added.length} added, {diff.removed.length} removed
+          </p>
+          {unchanged && <p className="italic text-gray-500 dark:text-gray-400">No changes.</p>}
+          {changeList('Newly listed', diff.listed, 'text-red-600')}
+          {changeList('Delisted', diff.delisted, 'text-green-600')}
+          {changeList('Compliance changed', diff.compliance, 'text-yellow-600')}
+          {ipList('Added to the inventory', diff.added)}
+          {ipList('Removed from the inventory', diff.removed)}
+          {!unchanged && (
+            <button onClick={exportDiff} className="mt-3 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700">
+              Export Diff
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
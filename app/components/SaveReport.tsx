@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import type { IPLookupResponse, SavedReportSummary } from '@/utils/types';
+import { refreshUiSession } from './uiSession';
+
+interface SaveReportProps {
+  results: IPLookupResponse[];
+  // Targets as entered, stored with the report
+  input: string[];
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days?: number }[] = [
+  { label: 'Never expires' },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+  { label: 'Expires in 90 days', days: 90 }
+];
+
+// Store the run server-side as a read-only report with a permalink to share
+export default function SaveReport({ results, input, showToast }: SaveReportProps) {
+  const [reportName, setReportName] = useState<string>('');
+  const [expiry, setExpiry] = useState<number>(0);
+  const [saved, setSaved] = useState<SavedReportSummary | null>(null);
+
+  const permalink = saved ? `${window.location.origin}/reports/${saved.id}` : '';
+
+  const saveReport = async () => {
+    try {
+      await refreshUiSession();
+      const res = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: reportName || undefined,
+          input,
+          results,
+          expiresInDays: EXPIRY_OPTIONS[expiry].days
+        })
+      });
+      if (!res.ok) throw new Error('API error');
+      setSaved(await res.json());
+      setReportName('');
+      showToast('📄 Report saved', 'success');
+    } catch (err) {
+      showToast('❌ Failed to save report', 'error');
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(permalink);
+      showToast('🔗 Link copied', 'success');
+    } catch (err) {
+      showToast('❌ Could not copy the link', 'error');
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+      <h3 className="font-medium text-gray-700 dark:text-gray-300 mb-2">Share as a report</h3>
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="text"
+          value={reportName}
+          onChange={(e) => setReportName(e.target.value)}
+          placeholder="Report name, e.g. Ticket 4711 relays"
+          className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+        />
+        <select
+          value={expiry}
+          onChange={(e) => setExpiry(Number(e.target.value))}
+          className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+          aria-label="Report expiry"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+        <button onClick={saveReport} className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+          Save report
+        </button>
+        <a href="/reports" className="text-blue-600 dark:text-blue-400 hover:underline">
+          Saved reports
+        </a>
+      </div>
+      {saved && (
+        <div className="mt-2 flex flex-wrap gap-2 items-center text-gray-600 dark:text-gray-400">
+          <a href={permalink} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+            {permalink}
+          </a>
+          <button onClick={copyLink} className="px-2 py-0.5 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600">
+            Copy link
+          </button>
+          {saved.expiresAt && <span>Expires {new Date(saved.expiresAt).toLocaleString()}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
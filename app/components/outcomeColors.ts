@@ -0,0 +1,23 @@
+// app/components/outcomeColors.ts
+import type { CheckOutcome, ListOutcome, SeverityBand } from '@/utils/types';
+
+// Errored checks get their own color so they never read as a pass or a clean result
+export const checkColor = (outcome: CheckOutcome) =>
+  outcome === 'Passed!' ? 'text-green-600' : outcome === 'Error' ? 'text-amber-600' : 'text-red-600';
+
+export const listColor = (outcome: ListOutcome) =>
+  outcome === 'On the list'
+    ? 'text-green-600'
+    : outcome === 'Error'
+      ? 'text-amber-600'
+      : 'text-gray-500 dark:text-gray-400';
+
+export const bandColor = (band: SeverityBand) =>
+  ({
+    unknown: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    clean: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+    low: 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200',
+    medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+    high: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+    critical: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+  })[band];
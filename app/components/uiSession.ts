@@ -0,0 +1,16 @@
+// app/components/uiSession.ts
+export interface UiSession {
+  // Most IPs one lookup request may carry; larger runs are sent in chunks
+  batchSize: number;
+}
+
+// The server accepts UI requests without an API key only with a fresh session cookie
+export async function refreshUiSession(): Promise<UiSession | null> {
+  try {
+    const res = await fetch('/api/session', { cache: 'no-store' });
+    return res.ok ? ((await res.json()) as UiSession) : null;
+  } catch (err) {
+    // The request that follows reports the failure
+    return null;
+  }
+}
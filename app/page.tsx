@@ -1,36 +1,71 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
-interface ListStatus {
-  list: string;
-  status: string;
-}
-
-interface StandardsCompliance {
-  reverseHostname: string;
-  namingConvention: string;
-}
-
-interface IPLookupResponse {
-  ip: string;
-  standardsCompliance: StandardsCompliance;
-  listStatuses: ListStatus[];
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { BatchEvent, DomainLookupResponse, IPLookupResponse, ListStatus, ProviderInfo } from '@/utils/types';
+import { isValidIP } from '@/utils/ipValidator';
+import { importTargets, type ImportResult, type InvalidLine } from '@/utils/csvParser';
+import { DEFAULT_MAX_ADDRESSES, expandTargets, type ExpandedTargets, type IPBlock } from '@/utils/ipRanges';
+import BlockSummary from './components/BlockSummary';
+import CaseTracker from './components/CaseTracker';
+import DomainSummary from './components/DomainSummary';
+import ResultDetail from './components/ResultDetail';
+import ResultsTable from './components/ResultsTable';
+import RunComparison from './components/RunComparison';
+import SaveReport from './components/SaveReport';
+import { refreshUiSession } from './components/uiSession';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  EXPORT_TYPES,
+  exportFilename,
+  exportMetadata,
+  exportResults,
+  type ExportFormat
+} from '@/utils/exports';
+import { hasLookupErrors } from '@/utils/lookupResult';
+
+// Resolves after the delay, or rejects as soon as the run is cancelled
+function waitFor(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', cancel, { once: true });
+  });
 }
 
 export default function IPLookup() {
-  const [activeTab, setActiveTab] = useState<'input' | 'processing'>('input');
+  const [activeTab, setActiveTab] = useState<'input' | 'processing' | 'cases'>('input');
+  const [inputMode, setInputMode] = useState<'ips' | 'domain'>('ips');
   const [ipsInput, setIpsInput] = useState<string>('');
+  // Column index holding the IPs in CSV/TSV input; empty for auto-detection
+  const [ipColumn, setIpColumn] = useState<string>('');
+  const [skippedLines, setSkippedLines] = useState<InvalidLine[]>([]);
+  const [domainInput, setDomainInput] = useState<string>('');
+  const [domainReport, setDomainReport] = useState<Omit<DomainLookupResponse, 'results'> | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [ips, setIps] = useState<string[]>([]);
+  // Targets as entered for the current run: IPs, blocks and ranges, or the domain
+  const [runInput, setRunInput] = useState<string[]>([]);
+  const [blocks, setBlocks] = useState<IPBlock[]>([]);
+  const [maxAddresses, setMaxAddresses] = useState<number>(DEFAULT_MAX_ADDRESSES);
   const [results, setResults] = useState<IPLookupResponse[]>([]);
   const [failedIps, setFailedIps] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [currentIpIndex, setCurrentIpIndex] = useState<number>(-1);
-  const [expandedIps, setExpandedIps] = useState<Set<string>>(new Set());
+  // waitSeconds is set while the run waits out the rate limit
+  const [progress, setProgress] = useState<{ completed: number; total: number; waitSeconds?: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Result shown in the detail drawer
+  const [selectedIp, setSelectedIp] = useState<string | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [selectedProviders, setSelectedProviders] = useState<Set<string>>(new Set());
+  const [forceFresh, setForceFresh] = useState<boolean>(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
 
   // Apply dark mode
   useEffect(() => {
@@ -41,19 +76,49 @@ export default function IPLookup() {
     }
   }, [darkMode]);
 
-  // Parse IPs from textarea input
-  const parseIps = (input: string): string[] => {
-    return input
-      .split('\n')
-      .map(ip => ip.trim())
-      .filter(ip => ip.length > 0);
+  // Load the DNSBL provider registry
+  useEffect(() => {
+    fetch('/api/providers')
+      .then(res => {
+        if (!res.ok) throw new Error('API error');
+        return res.json();
+      })
+      .then((data: ProviderInfo[]) => {
+        setProviders(data);
+        setSelectedProviders(new Set(data.filter(p => p.defaultSelected).map(p => p.id)));
+      })
+      .catch(() => setError('Failed to load DNSBL providers'));
+  }, []);
+
+  // Toggle a provider for the next run
+  const toggleProvider = (id: string) => {
+    setSelectedProviders(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(id)) {
+        newSet.delete(id);
+      } else {
+        newSet.add(id);
+      }
+      return newSet;
+    });
   };
 
+  // IPs, CIDR blocks and ranges from the textarea, which also holds uploaded CSV/TSV files
+  const imported = useMemo((): ImportResult | null => {
+    if (!ipsInput.trim()) return null;
+    try {
+      return importTargets(ipsInput, { column: ipColumn === '' ? undefined : Number(ipColumn) });
+    } catch {
+      return null;
+    }
+  }, [ipsInput, ipColumn]);
+
   // Handle file upload
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       setFile(selectedFile);
+      setIpColumn('');
       const reader = new FileReader();
       reader.onload = (event) => {
         if (event.target?.result) {
@@ -64,33 +129,44 @@ export default function IPLookup() {
     }
   };
 
-  // Toggle expandable view for an IP
-  const toggleExpand = (ip: string) => {
-    setExpandedIps(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(ip)) {
-        newSet.delete(ip);
-      } else {
-        newSet.add(ip);
-      }
-      return newSet;
-    });
-  };
+  const selectedResult = selectedIp ? results.find(result => result.ip === selectedIp) : undefined;
+  const closeDetail = useCallback(() => setSelectedIp(null), []);
 
   // Show toast notification
-  const showToast = (message: string, type: 'success' | 'error') => {
+  const showToast = useCallback((message: string, type: 'success' | 'error') => {
     setToast({ message, type });
     setTimeout(() => setToast(null), 3000);
+  }, []);
+
+  // Start tracking delisting for one listing; an unresolved case for the same listing is reused
+  const openCase = async (result: IPLookupResponse, provider: string, status: ListStatus) => {
+    try {
+      await refreshUiSession();
+      const res = await fetch('/api/cases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ip: result.ip,
+          provider,
+          list: status.list,
+          reason: status.reason,
+          delistUrl: status.delistUrl
+        })
+      });
+      if (!res.ok) throw new Error('API error');
+      showToast(res.status === 201 ? `📋 Case opened for ${result.ip}` : `📋 ${result.ip} already has an open case`, 'success');
+    } catch (err) {
+      showToast(`❌ Failed to open case`, 'error');
+    }
   };
 
-  // Process IPs linearly
-  const processIps = async (ipsToProcess: string[]) => {
+  // Stream IPs through the batch endpoint; a retry replaces the earlier results for the same IPs
+  const processIps = async (ipsToProcess: string[], retry = false) => {
     setIsProcessing(true);
     setError(null);
     setFailedIps([]);
 
-    const ipRegex = /^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/;
-    const invalidIps = ipsToProcess.filter(ip => !ipRegex.test(ip));
+    const invalidIps = ipsToProcess.filter(ip => !isValidIP(ip));
     if (invalidIps.length > 0) {
       setError(`Invalid IP addresses: ${invalidIps.join(', ')}`);
       showToast(`❌ Invalid IP addresses`, 'error');
@@ -98,92 +174,229 @@ export default function IPLookup() {
       return;
     }
 
-    const newResults: IPLookupResponse[] = [];
+    const newResults: IPLookupResponse[] = retry
+      ? results.filter(result => !ipsToProcess.includes(result.ip))
+      : [];
     const failed: string[] = [];
+    const seen = new Set<number>();
+    let requestError: string | undefined;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResults([...newResults]);
+    setProgress({ completed: 0, total: ipsToProcess.length });
+
+    // Event indexes count from the start of the chunk they belong to
+    const handleEvent = (event: BatchEvent, offset: number) => {
+      if (event.type === 'result') {
+        seen.add(offset + event.index);
+        newResults.push(event.result);
+        if (hasLookupErrors(event.result)) {
+          // DNS errors are not answers; offer the IP for retry
+          failed.push(event.result.ip);
+        }
+      } else if (event.type === 'error') {
+        seen.add(offset + event.index);
+        failed.push(event.ip);
+      }
+    };
+
+    try {
+      // The server caps the IPs per request, so larger runs go in consecutive chunks
+      const session = await refreshUiSession();
+      const chunkSize = session?.batchSize || ipsToProcess.length;
 
-    for (let i = 0; i < ipsToProcess.length; i++) {
-      setCurrentIpIndex(i);
-      try {
-        const res = await fetch('/api/iplookup', {
+      for (let offset = 0; offset < ipsToProcess.length; ) {
+        const chunk = ipsToProcess.slice(offset, offset + chunkSize);
+        const res = await fetch('/api/iplookup/batch', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ ips: [ipsToProcess[i]] })
+          body: JSON.stringify({ ips: chunk, providers: [...selectedProviders], fresh: forceFresh }),
+          signal: controller.signal
         });
 
-        if (!res.ok) throw new Error(`API error`);
+        if (res.status === 429) {
+          // The rate limit bucket refills over time; send the chunk again once it has
+          const waitSeconds = Number(res.headers.get('Retry-After')) || 1;
+          setProgress({ completed: seen.size, total: ipsToProcess.length, waitSeconds });
+          await waitFor(waitSeconds * 1000, controller.signal);
+          continue;
+        }
+        if (!res.ok || !res.body) {
+          // Rejections such as 401 and 413 explain themselves in the body
+          const data = await res.json().catch(() => null);
+          throw new Error(data?.error || `API error`);
+        }
 
-        const data = await res.json();
-        newResults.push(...(data as IPLookupResponse[]));
-      } catch (err) {
-        failed.push(ipsToProcess[i]);
-        setError(`Some IPs failed`);
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
+          for (const line of lines) {
+            if (line.trim()) handleEvent(JSON.parse(line) as BatchEvent, offset);
+          }
+          setResults([...newResults]);
+          setFailedIps([...failed]);
+          setProgress({ completed: seen.size, total: ipsToProcess.length });
+        }
+        offset += chunk.length;
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        // Anything the stream never reported on is retryable
+        failed.push(...ipsToProcess.filter((_, index) => !seen.has(index)));
+        requestError = (err as Error).message;
       }
-
-      setResults([...newResults]);
-      setFailedIps(failed);
     }
 
+    const cancelled = controller.signal.aborted;
+    abortRef.current = null;
+    setResults([...newResults]);
+    setFailedIps([...failed]);
     setIsProcessing(false);
-    setCurrentIpIndex(-1);
-    if (failed.length === 0) {
+    setProgress(null);
+    if (failed.length > 0) setError(requestError ?? `Some IPs failed`);
+
+    if (cancelled) {
+      showToast(`⏹️ Lookup cancelled after ${seen.size} of ${ipsToProcess.length} IPs`, 'error');
+    } else if (failed.length === 0) {
       showToast(`✅ IP lookup completed successfully`, 'success');
     } else {
       showToast(`⚠️ Some IPs failed. Use "Retry Failed" to try again.`, 'error');
     }
   };
 
+  // Discover and check every IP behind a domain's MX, A/AAAA and SPF records
+  const processDomain = async (domain: string) => {
+    setIsProcessing(true);
+    setError(null);
+    setFailedIps([]);
+    setResults([]);
+    setIps([]);
+    setBlocks([]);
+    setDomainReport(null);
+
+    try {
+      await refreshUiSession();
+      const res = await fetch('/api/domainlookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain, providers: [...selectedProviders], fresh: forceFresh, maxAddresses })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'API error');
+
+      const { results: domainResults, ...report } = data as DomainLookupResponse;
+      const failed = domainResults.filter(hasLookupErrors).map(result => result.ip);
+      setDomainReport(report);
+      setIps(report.sources.map(source => source.ip));
+      setResults(domainResults);
+      setFailedIps(failed);
+      if (report.sources.length === 0) {
+        showToast(`⚠️ No IPs found for ${report.domain}`, 'error');
+      } else if (failed.length > 0) {
+        setError(`Some IPs failed`);
+        showToast(`⚠️ Some IPs failed. Use "Retry Failed" to try again.`, 'error');
+      } else {
+        showToast(`✅ Domain lookup completed successfully`, 'success');
+      }
+    } catch (err) {
+      setError((err as Error).message);
+      showToast(`❌ Domain lookup failed`, 'error');
+    }
+    setIsProcessing(false);
+  };
+
+  // Cancel the running batch; lookups already in flight on the server finish
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const parsedIps = parseIps(ipsInput);
-    if (parsedIps.length === 0) {
+    if (inputMode === 'domain') {
+      if (!domainInput.trim()) {
+        setError('Please provide a domain');
+        showToast(`❌ Please provide a domain`, 'error');
+        return;
+      }
+      if (selectedProviders.size === 0) {
+        setError('Please select at least one DNSBL provider');
+        showToast(`❌ Please select at least one DNSBL provider`, 'error');
+        return;
+      }
+      setSkippedLines([]);
+      setRunInput([domainInput.trim()]);
+      setActiveTab('processing');
+      processDomain(domainInput.trim());
+      return;
+    }
+
+    let expanded: ExpandedTargets;
+    try {
+      expanded = expandTargets(imported?.entries ?? [], maxAddresses);
+    } catch (err) {
+      setError((err as Error).message);
+      showToast(`❌ Too many addresses`, 'error');
+      return;
+    }
+    if (expanded.ips.length === 0) {
       setError('Please provide at least one IP address');
       showToast(`❌ Please provide at least one IP address`, 'error');
       return;
     }
-    setIps(parsedIps);
+    if (selectedProviders.size === 0) {
+      setError('Please select at least one DNSBL provider');
+      showToast(`❌ Please select at least one DNSBL provider`, 'error');
+      return;
+    }
+    setIps(expanded.ips);
+    setBlocks(expanded.blocks);
+    setRunInput(imported?.entries ?? []);
+    setDomainReport(null);
+    // Invalid lines are skipped, not fatal; they stay listed on the results tab
+    setSkippedLines(imported?.invalid ?? []);
     setActiveTab('processing');
-    processIps(parsedIps);
+    processIps(expanded.ips);
   };
 
   // Reset form
   const handleReset = () => {
     setIpsInput('');
+    setIpColumn('');
+    setSkippedLines([]);
+    setDomainInput('');
+    setDomainReport(null);
     setFile(null);
     setIps([]);
+    setRunInput([]);
+    setBlocks([]);
     setResults([]);
     setError(null);
+    abortRef.current?.abort();
     setIsProcessing(false);
-    setCurrentIpIndex(-1);
-    setExpandedIps(new Set());
+    setProgress(null);
+    setSelectedIp(null);
     setFailedIps([]);
     setActiveTab('input');
   };
 
   // Export results to CSV
-  const exportToCSV = () => {
+  const exportToFile = () => {
     if (!results.length) return;
 
-    const headers = ['IP', 'Reverse Hostname', 'Naming Convention', 'List Status'].join(',');
-
-    const rows = results.map((result) => {
-      const listStatuses = result.listStatuses
-        .map((status) => `${status.list}:${status.status}`)
-        .join('|');
-      return [
-        `"${result.ip}"`,
-        `"${result.standardsCompliance.reverseHostname}"`,
-        `"${result.standardsCompliance.namingConvention}"`,
-        `"${listStatuses}"`,
-      ].join(',');
-    });
-
-    const csvContent = [headers, ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const metadata = exportMetadata(results);
+    const blob = new Blob([exportResults(results, exportFormat, metadata)], { type: EXPORT_TYPES[exportFormat].contentType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.setAttribute('href', url);
-    link.setAttribute('download', `ip_lookup_results_${new Date().toISOString().slice(0, 10)}.csv`);
+    link.setAttribute('download', exportFilename(exportFormat, metadata.generatedAt));
     link.click();
   };
 
@@ -200,7 +413,7 @@ export default function IPLookup() {
         </div>
       )}
 
-      <div className="max-w-3xl w-full bg-white dark:bg-gray-800 shadow-xl rounded-xl p-6 transition-all duration-300">
+      <div className={`${activeTab === 'processing' ? 'max-w-6xl' : 'max-w-3xl'} w-full bg-white dark:bg-gray-800 shadow-xl rounded-xl p-6 transition-all duration-300`}>
         <h1 className="text-3xl font-extrabold text-center mb-6 bg-gradient-to-r from-blue-600 to-purple-600 text-transparent bg-clip-text">
           IP Lookup Tool
         </h1>
@@ -250,35 +463,153 @@ export default function IPLookup() {
           >
             Results
           </button>
+          <button
+            className={`flex-1 py-2 px-4 text-center font-semibold ${
+              activeTab === 'cases'
+                ? 'border-b-2 border-blue-600 text-blue-600'
+                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+            }`}
+            onClick={() => setActiveTab('cases')}
+          >
+            Cases
+          </button>
         </div>
 
         {/* Input Tab */}
         {activeTab === 'input' && (
           <form onSubmit={handleSubmit} className="flex flex-col gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Upload IP List (text file, one IP per line)
+            <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-300">
+              <label className="inline-flex items-center">
+                <input
+                  type="radio"
+                  checked={inputMode === 'ips'}
+                  onChange={() => setInputMode('ips')}
+                  className="mr-2"
+                  disabled={isProcessing}
+                />
+                IP addresses
               </label>
+              <label className="inline-flex items-center">
+                <input
+                  type="radio"
+                  checked={inputMode === 'domain'}
+                  onChange={() => setInputMode('domain')}
+                  className="mr-2"
+                  disabled={isProcessing}
+                />
+                Domain (MX, A and SPF)
+              </label>
+            </div>
+            {inputMode === 'domain' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Domain
+                </label>
+                <input
+                  type="text"
+                  value={domainInput}
+                  onChange={(e) => setDomainInput(e.target.value)}
+                  placeholder="example.com"
+                  className="border border-gray-300 dark:border-gray-600 rounded-md p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  disabled={isProcessing}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Upload IP List (text file, or a CSV/TSV export)
+                  </label>
+                  <input
+                    type="file"
+                    accept=".txt,.csv,.tsv,text/plain,text/csv,text/tab-separated-values"
+                    onChange={handleFileChange}
+                    className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-100 dark:file:text-blue-800"
+                    disabled={isProcessing}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Or Enter IPs, CIDR blocks or ranges (one per line)
+                  </label>
+                  <textarea
+                    value={ipsInput}
+                    onChange={(e) => setIpsInput(e.target.value)}
+                    placeholder="One per line, e.g. 111.88.202.130, 2001:db8::25, 203.0.113.0/26 or 203.0.113.10-203.0.113.40"
+                    className="border border-gray-300 dark:border-gray-600 rounded-md p-3 w-full h-32 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                    disabled={isProcessing}
+                  />
+                  {imported && imported.columns.length > 1 && (
+                    <label className="inline-flex items-center mt-2 text-sm text-gray-700 dark:text-gray-300">
+                      IP column
+                      <select
+                        value={ipColumn}
+                        onChange={(e) => setIpColumn(e.target.value)}
+                        className="ml-2 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+                        disabled={isProcessing}
+                      >
+                        <option value="">Auto-detect</option>
+                        {imported.columns.map((name, index) => (
+                          <option key={index} value={index}>{name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {imported && (
+                    <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                      {imported.entries.length} entries
+                      {imported.column !== null && imported.columns.length > 1 && ` from "${imported.columns[imported.column]}"`}
+                      {imported.header && ', header row skipped'}
+                      {imported.duplicates > 0 && `, ${imported.duplicates} duplicates removed`}
+                      {imported.invalid.length > 0 && (
+                        <span className="text-amber-600">, {imported.invalid.length} invalid lines will be skipped</span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+            <div>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                DNSBL Providers
+              </span>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {providers.map((provider) => (
+                  <label key={provider.id} className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300" title={provider.zone}>
+                    <input
+                      type="checkbox"
+                      checked={selectedProviders.has(provider.id)}
+                      onChange={() => toggleProvider(provider.id)}
+                      className="mr-2"
+                      disabled={isProcessing}
+                    />
+                    {provider.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+              {inputMode === 'domain' ? 'Check SPF networks up to' : 'Expand blocks and ranges up to'}
               <input
-                type="file"
-                accept=".txt"
-                onChange={handleFileChange}
-                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-100 dark:file:text-blue-800"
+                type="number"
+                min={1}
+                value={maxAddresses}
+                onChange={(e) => setMaxAddresses(Math.max(1, Number(e.target.value) || 1))}
+                className="mx-2 w-24 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
                 disabled={isProcessing}
               />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Or Enter IPs (one per line)
-              </label>
-              <textarea
-                value={ipsInput}
-                onChange={(e) => setIpsInput(e.target.value)}
-                placeholder="Enter IP addresses, one per line (e.g., 111.88.202.130)"
-                className="border border-gray-300 dark:border-gray-600 rounded-md p-3 w-full h-32 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              addresses
+            </label>
+            <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={forceFresh}
+                onChange={(e) => setForceFresh(e.target.checked)}
+                className="mr-2"
                 disabled={isProcessing}
               />
-            </div>
+              Force fresh lookup (ignore cached DNS answers)
+            </label>
             <div className="flex gap-4">
               <button
                 type="submit"
@@ -295,7 +626,7 @@ export default function IPLookup() {
                     </svg>
                     Processing...
                   </span>
-                ) : 'Lookup IPs'}
+                ) : inputMode === 'domain' ? 'Lookup Domain' : 'Lookup IPs'}
               </button>
               <button
                 type="button"
@@ -310,8 +641,12 @@ export default function IPLookup() {
 
         {/* Results Tab */}
         {activeTab === 'processing' && (
-          <div className="max-h-[60vh] overflow-y-auto pr-2 space-y-4">
-            {ips.length === 0 && !isProcessing && !results.length && (
+          <div className="space-y-4">
+            {domainReport && <DomainSummary report={domainReport} />}
+            {isProcessing && !progress && ips.length === 0 && (
+              <p className="text-gray-600 dark:text-gray-400 text-center py-4">Resolving MX, A and SPF records...</p>
+            )}
+            {ips.length === 0 && !isProcessing && !results.length && !domainReport && (
               <p className="text-gray-600 dark:text-gray-400 italic text-center py-4">
                 No IPs to process. Please enter IPs in the Input tab.
               </p>
@@ -321,92 +656,61 @@ export default function IPLookup() {
                 <h2 className="text-lg font-medium text-gray-700 dark:text-gray-300 mb-4">
                   Processing IPs ({results.length}/{ips.length} completed)
                 </h2>
-                {isProcessing && (
+                {isProcessing && progress && (
                   <div className="mb-4">
-                    <p className="text-gray-600 dark:text-gray-400">
-                      Currently processing: {currentIpIndex >= 0 ? ips[currentIpIndex] : 'Starting...'}
-                    </p>
+                    <div className="flex items-center justify-between">
+                      <p className="text-gray-600 dark:text-gray-400">
+                        {progress.waitSeconds
+                          ? `Checked ${progress.completed} of ${progress.total} IPs, rate limited: continuing in ${progress.waitSeconds}s`
+                          : progress.completed === 0
+                            ? 'Starting...'
+                            : `Checked ${progress.completed} of ${progress.total} IPs`}
+                      </p>
+                      <button
+                        onClick={cancelProcessing}
+                        className="px-3 py-1 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded hover:bg-gray-300 dark:hover:bg-gray-600"
+                      >
+                        Cancel
+                      </button>
+                    </div>
                     <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mt-2 overflow-hidden">
                       <div
                         className="bg-gradient-to-r from-blue-500 to-indigo-500 h-2 rounded-full transition-all duration-300 ease-out"
-                        style={{ width: `${((currentIpIndex + 1) / ips.length) * 100}%` }}
+                        style={{ width: `${(progress.completed / progress.total) * 100}%` }}
                       ></div>
                     </div>
                   </div>
                 )}
-                {results.map((result, index) => {
-                  const isOnAnyList = result.listStatuses.some(status => status.status === 'On the list');
-
-                  return (
-                    <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden hover:shadow-md transition-shadow">
-                      <button
-                        className="w-full text-left flex justify-between items-center px-4 py-3 bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-                        onClick={() => toggleExpand(result.ip)}
-                      >
-                        <span className="flex items-center space-x-3">
-                          <span
-                            className={`block w-3 h-3 rounded-full ${
-                              isOnAnyList ? 'bg-red-500' : 'bg-green-500'
-                            }`}
-                            title={isOnAnyList ? 'IP is on at least one list' : 'IP is not on any list'}
-                          ></span>
-                          <span className="font-semibold text-gray-800 dark:text-gray-200">{result.ip}</span>
-                        </span>
-                        <span className="text-gray-500 dark:text-gray-400 transform transition-transform duration-200">
-                          {expandedIps.has(result.ip) ? '▼' : '▶'}
-                        </span>
-                      </button>
-                      {expandedIps.has(result.ip) && (
-                        <div className="bg-white dark:bg-gray-700 p-4 border-t border-gray-200 dark:border-gray-600">
-                          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
-                            Information about {result.ip}
-                          </h3>
-                          <p className="text-gray-600 dark:text-gray-400 mt-1">
-                            Below is the information we have on record about {result.ip}
-                          </p>
-                          <h4 className="text-md font-medium mt-4 text-gray-700 dark:text-gray-300">
-                            Standards Compliance
-                          </h4>
-                          <p className="text-gray-600 dark:text-gray-400">
-                            Reverse hostname resolution...{' '}
-                            <span className={`font-medium ${result.standardsCompliance.reverseHostname.includes('Passed') ? 'text-green-600' : 'text-red-600'}`}>
-                              {result.standardsCompliance.reverseHostname}
-                            </span>
-                          </p>
-                          <p className="text-gray-600 dark:text-gray-400">
-                            Naming convention compliance...{' '}
-                            <span className={`font-medium ${result.standardsCompliance.namingConvention.includes('Passed') ? 'text-green-600' : 'text-red-600'}`}>
-                              {result.standardsCompliance.namingConvention}
-                            </span>
-                          </p>
-                          <h4 className="text-md font-medium mt-4 text-gray-700 dark:text-gray-300">
-                            List Status
-                          </h4>
-                          {result.listStatuses.map((status, idx) => (
-                            <p key={idx} className="text-gray-600 dark:text-gray-400">
-                              {status.list} -{' '}
-                              <span className={`font-medium ${status.status.includes('On') ? 'text-green-600' : 'text-gray-500 dark:text-gray-400'}`}>
-                                {status.status}
-                              </span>
-                            </p>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
+                {blocks.length > 0 && <BlockSummary blocks={blocks} results={results} />}
+                {results.length > 0 && (
+                  <ResultsTable results={results} selectedIp={selectedIp} onSelect={setSelectedIp} />
+                )}
               </>
             )}
+            {skippedLines.length > 0 && (
+              <details className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-700 rounded-md text-sm">
+                <summary className="cursor-pointer text-yellow-800 dark:text-yellow-300 font-medium">
+                  Skipped {skippedLines.length} invalid input lines
+                </summary>
+                <ul className="text-yellow-700 dark:text-yellow-400 mt-1">
+                  {skippedLines.map(({ line, value, reason }, index) => (
+                    <li key={`${line}-${index}`}>
+                      Line {line}: {value && <code>{value}</code>} ({reason})
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
             {failedIps.length > 0 && (
               <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-700 rounded-md">
-                <p className="text-yellow-800 dark:text-yellow-300 font-medium">Some IPs failed:</p>
+                <p className="text-yellow-800 dark:text-yellow-300 font-medium">Some IPs failed or had DNS errors:</p>
                 <ul className="text-sm text-yellow-700 dark:text-yellow-400 mt-1">
-                  {failedIps.map((ip, i) => (
-                    <li key={i}>{ip}</li>
+                  {failedIps.map((ip) => (
+                    <li key={ip}>{ip}</li>
                   ))}
                 </ul>
                 <button
-                  onClick={() => processIps(failedIps)}
+                  onClick={() => processIps(failedIps, true)}
                   className="mt-2 px-3 py-1 bg-yellow-600 text-white text-sm rounded hover:bg-yellow-700"
                 >
                   Retry Failed IPs
@@ -414,22 +718,51 @@ export default function IPLookup() {
               </div>
             )}
             {results.length > 0 && (
-              <button
-                onClick={exportToCSV}
-                className="mt-4 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-medium rounded-md transition"
-              >
-                Export Results
-              </button>
+              <div className="mt-4 flex items-center gap-2">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="border border-gray-300 dark:border-gray-600 rounded-md px-2 py-2 text-sm dark:bg-gray-700 dark:text-white"
+                  aria-label="Export format"
+                >
+                  {EXPORT_FORMATS.map((format) => (
+                    <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={exportToFile}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-medium rounded-md transition"
+                >
+                  Export Results
+                </button>
+              </div>
+            )}
+            {results.length > 0 && !isProcessing && (
+              <SaveReport results={results} input={runInput} showToast={showToast} />
             )}
+            {results.length > 0 && !isProcessing && <RunComparison results={results} showToast={showToast} />}
           </div>
         )}
 
+        {/* Cases Tab */}
+        {activeTab === 'cases' && <CaseTracker showToast={showToast} />}
+
         {error && (
           <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-700 rounded-md text-sm">
             {error}
           </div>
         )}
       </div>
+
+      {/* Detail drawer for the selected result */}
+      {selectedResult && (
+        <ResultDetail
+          result={selectedResult}
+          origins={domainReport?.sources.find(source => source.ip === selectedResult.ip)?.origins}
+          onClose={closeDetail}
+          onOpenCase={openCase}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
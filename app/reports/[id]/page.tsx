@@ -0,0 +1,153 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { allListStatuses, COMPLIANCE_CHECKS, COMPLIANCE_LABELS, formatOutcome } from '@/utils/lookupResult';
+import { getReport } from '@/utils/reports';
+import { SEVERITY_BANDS } from '@/utils/scoring';
+import type { ListStatus } from '@/utils/types';
+import PrintButton from '../../components/PrintButton';
+import { bandColor, checkColor, listColor } from '../../components/outcomeColors';
+
+// Reports are read from disk on every request and may expire
+export const dynamic = 'force-dynamic';
+
+type Props = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const report = await getReport((await params).id);
+  return { title: report ? `${report.name} · IP lookup report` : 'Report not found' };
+}
+
+// Read-only permalink of a saved report, laid out to print on plain paper
+export default async function ReportPage({ params }: Props) {
+  const report = await getReport((await params).id);
+  if (!report) notFound();
+
+  const { metadata, results } = report;
+  // Listed entries with the zone's explanation, for the details section
+  const listings = results.flatMap(result =>
+    allListStatuses(result)
+      .filter(status => status.status === 'On the list')
+      .map(status => ({ ip: result.ip, status }))
+  );
+  const statusOf = (statuses: ListStatus[], list: string) => statuses.find(status => status.list === list);
+
+  return (
+    <main className="min-h-screen bg-white text-gray-800 p-6 print:p-0">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">{report.name}</h1>
+            <p className="text-sm text-gray-500">
+              Saved {new Date(report.createdAt).toLocaleString()}
+              {report.expiresAt && ` · expires ${new Date(report.expiresAt).toLocaleString()}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 print:hidden">
+            <Link href="/reports" className="text-sm text-blue-600 hover:underline">
+              All reports
+            </Link>
+            <PrintButton />
+          </div>
+        </div>
+
+        <ul className="text-sm space-y-1">
+          <li>Resolver: {metadata.resolvers.join(', ') || '-'}</li>
+          <li>
+            Providers: {metadata.providers.map(provider => `${provider.name} (${provider.zone})`).join(', ') || '-'}
+          </li>
+          <li>
+            IPs checked: {report.count}, listed on any list: {report.listed}
+          </li>
+          <li>
+            Run score: average {report.score.average}, worst{' '}
+            <span className={`px-1.5 rounded font-semibold ${bandColor(report.score.band)}`}>
+              {report.score.max} · {report.score.band}
+            </span>{' '}
+            ({SEVERITY_BANDS.map(band => `${report.score.bands[band] ?? 0} ${band}`).join(', ')})
+          </li>
+        </ul>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-2">Input ({report.input.length} entries)</h2>
+          <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap break-all print:max-h-none print:overflow-visible">
+            {report.input.join('\n')}
+          </pre>
+        </section>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-2">Results</h2>
+          <div className="overflow-x-auto print:overflow-visible">
+            <table className="w-full text-sm text-left border-collapse">
+              <thead className="text-xs uppercase text-gray-500 border-b border-gray-300">
+                <tr>
+                  <th className="py-2 pr-4">IP</th>
+                  <th className="py-2 pr-4">Score</th>
+                  <th className="py-2 pr-4">PTR</th>
+                  {COMPLIANCE_CHECKS.map(check => (
+                    <th key={check} className="py-2 pr-4">{COMPLIANCE_LABELS[check]}</th>
+                  ))}
+                  {metadata.lists.map(list => (
+                    <th key={list} className="py-2 pr-4">{list}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => {
+                  const statuses = allListStatuses(result);
+                  return (
+                    <tr key={result.ip} className="border-b border-gray-100 break-inside-avoid">
+                      <td className="py-1 pr-4 font-mono">{result.ip}</td>
+                      <td className="py-1 pr-4">
+                        <span className={`px-1.5 rounded font-semibold ${bandColor(result.score.band)}`}>
+                          {result.score.value}
+                        </span>
+                      </td>
+                      <td className="py-1 pr-4 break-all">{result.standardsCompliance.hostnames.join(', ') || '-'}</td>
+                      {COMPLIANCE_CHECKS.map(check => (
+                        <td key={check} className={`py-1 pr-4 ${checkColor(result.standardsCompliance[check])}`}>
+                          {formatOutcome(result.standardsCompliance[check], result.standardsCompliance.errorCodes?.[check])}
+                        </td>
+                      ))}
+                      {metadata.lists.map(list => {
+                        const status = statusOf(statuses, list);
+                        return (
+                          <td key={list} className={`py-1 pr-4 ${status ? listColor(status.status) : ''}`}>
+                            {status ? formatOutcome(status.status, status.errorCode) : '-'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {listings.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Listings</h2>
+            <ul className="text-sm space-y-1">
+              {listings.map(({ ip, status }) => (
+                <li key={`${ip}:${status.list}`} className="break-inside-avoid">
+                  <span className="font-mono">{ip}</span> · {status.list}
+                  {status.returnCode && ` (${status.returnCode})`}
+                  {status.reason && <span className="text-gray-600">: {status.reason}</span>}
+                  {status.delistUrl && (
+                    <>
+                      {' '}
+                      <a href={status.delistUrl} className="text-blue-600 hover:underline break-all">
+                        {status.delistUrl}
+                      </a>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
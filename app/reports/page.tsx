@@ -0,0 +1,63 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { listReports } from '@/utils/reports';
+import { bandColor } from '../components/outcomeColors';
+
+// Reports are read from disk on every request and may expire
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = { title: 'Saved reports' };
+
+// Every saved report that has not expired, newest first
+export default async function ReportsPage() {
+  const reports = await listReports();
+
+  return (
+    <main className="min-h-screen bg-white text-gray-800 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold">Saved reports</h1>
+          <Link href="/" className="text-sm text-blue-600 hover:underline print:hidden">
+            New lookup
+          </Link>
+        </div>
+        {reports.length === 0 ? (
+          <p className="italic text-gray-500">No saved reports. Save one from the results of a lookup.</p>
+        ) : (
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-gray-500 border-b border-gray-300">
+              <tr>
+                <th className="py-2 pr-4">Report</th>
+                <th className="py-2 pr-4">Saved</th>
+                <th className="py-2 pr-4">Expires</th>
+                <th className="py-2 pr-4">IPs</th>
+                <th className="py-2 pr-4">Listed</th>
+                <th className="py-2 pr-4">Worst score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reports.map(report => (
+                <tr key={report.id} className="border-b border-gray-100">
+                  <td className="py-1 pr-4">
+                    <Link href={`/reports/${report.id}`} className="text-blue-600 hover:underline">
+                      {report.name}
+                    </Link>
+                  </td>
+                  <td className="py-1 pr-4">{new Date(report.createdAt).toLocaleString()}</td>
+                  <td className="py-1 pr-4">{report.expiresAt ? new Date(report.expiresAt).toLocaleString() : 'Never'}</td>
+                  <td className="py-1 pr-4">{report.count}</td>
+                  <td className="py-1 pr-4">{report.listed}</td>
+                  <td className="py-1 pr-4">
+                    <span className={`px-1.5 rounded font-semibold ${bandColor(report.score.band)}`}>
+                      {report.score.max} · {report.score.band}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,220 @@
+// cli/spamrat.ts
+// Command-line checker running the same lookup as POST /api/iplookup.
+//
+// Exit codes: 0 clean, 1 an IP is listed or fails a compliance check,
+// 2 usage error, 3 no failures but some checks hit DNS errors, 4 the run
+// itself failed (e.g. an unreadable --file).
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { mapWithConcurrency, resolveConcurrency } from '../utils/batch';
+import { importTargets, type ImportResult } from '../utils/csvParser';
+import { exportResults, isExportFormat } from '../utils/exports';
+import { iplookup } from '../utils/iplookup';
+import { DEFAULT_MAX_ADDRESSES, expandTargets } from '../utils/ipRanges';
+import { configureLogger } from '../utils/logger';
+import { allListStatuses, COMPLIANCE_CHECKS, formatOutcome, hasLookupErrors } from '../utils/lookupResult';
+import { parseLookupRequest } from '../utils/lookupRequest';
+import type { IPLookupResponse } from '../utils/types';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_DNS_ERRORS = 3;
+const EXIT_RUNTIME = 4;
+
+const USAGE = `Usage: spamrat [options] [ip ...]
+
+Reads IPs from the arguments, from --file, or from stdin when neither is given.
+IPs may also be CIDR blocks (203.0.113.0/26) or ranges (203.0.113.10-203.0.113.40).
+
+Options:
+  -f, --file <path>        Read IPs from a file: a plain list, or a CSV/TSV export
+      --column <name|n>    Column holding the IPs in a CSV/TSV file (header name or 1-based number;
+                           detected otherwise)
+  -o, --output <format>    table (default), csv, json, ndjson, markdown or html
+  -p, --providers <ids>    Comma-separated DNSBL provider ids (default selection otherwise)
+      --lists <names>      Lists that count toward failure: "any" (default), "none" or names
+      --checks <names>     Compliance checks that count toward failure: "any" (default), "none",
+                           or reverseHostname,forwardConfirmed,namingConvention
+  -c, --concurrency <n>    Parallel lookups (capped by LOOKUP_CONCURRENCY)
+      --max-addresses <n>  Most addresses blocks and ranges may expand to (default ${DEFAULT_MAX_ADDRESSES})
+      --fresh              Ignore cached DNS answers
+  -h, --help               Show this help
+`;
+
+class UsageError extends Error {}
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// "any" matches everything, "none" nothing, otherwise the named items
+function selector(value: string | undefined): (name: string) => boolean {
+  if (!value || value === 'any') return () => true;
+  if (value === 'none') return () => false;
+  const names = splitList(value) ?? [];
+  return name => names.includes(name);
+}
+
+// Why a result fails under the chosen lists and checks
+function failures(result: IPLookupResponse, countsList: (name: string) => boolean, countsCheck: (name: string) => boolean): string[] {
+  const reasons = allListStatuses(result)
+    .filter(status => status.status === 'On the list' && countsList(status.list))
+    .map(status => status.list);
+  for (const check of COMPLIANCE_CHECKS) {
+    if (result.standardsCompliance[check] === 'Failed!' && countsCheck(check)) reasons.push(check);
+  }
+  return reasons;
+}
+
+function formatTable(results: IPLookupResponse[], reasons: Map<string, string[]>): string {
+  const rows = [
+    ['IP', 'PTR', 'Score', 'Reverse Hostname', 'FCrDNS', 'Naming Convention', 'Listed On', 'Verdict'],
+    ...results.map(result => {
+      const { standardsCompliance } = result;
+      const listed = allListStatuses(result)
+        .filter(status => status.status !== 'Not on the list')
+        .map(status => (status.status === 'On the list' ? status.list : `${status.list}:${formatOutcome(status.status, status.errorCode)}`));
+      const failed = reasons.get(result.ip) ?? [];
+      return [
+        result.ip,
+        standardsCompliance.hostnames.join(', ') || '-',
+        `${result.score.value} ${result.score.band}`,
+        ...COMPLIANCE_CHECKS.map(check => formatOutcome(standardsCompliance[check], standardsCompliance.errorCodes?.[check])),
+        listed.join(', ') || '-',
+        failed.length > 0 ? 'FAIL' : hasLookupErrors(result) ? 'ERROR' : 'OK'
+      ];
+    })
+  ];
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+async function main(argv: string[]): Promise<number> {
+  // Results go to stdout; logs go to stderr, and only when LOG_LEVEL asks for them
+  configureLogger({ stream: process.stderr, ...(!process.env.LOG_LEVEL && { level: 'silent' }) });
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: 'string', short: 'f' },
+      column: { type: 'string' },
+      output: { type: 'string', short: 'o', default: 'table' },
+      providers: { type: 'string', short: 'p' },
+      lists: { type: 'string' },
+      checks: { type: 'string' },
+      concurrency: { type: 'string', short: 'c' },
+      'max-addresses': { type: 'string' },
+      fresh: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (values.output !== 'table' && !isExportFormat(values.output)) {
+    throw new UsageError(`Unknown output format: ${values.output}`);
+  }
+  const checks = splitList(values.checks) ?? [];
+  const unknownChecks = checks.filter(check => !['any', 'none', ...COMPLIANCE_CHECKS].includes(check));
+  if (unknownChecks.length > 0) {
+    throw new UsageError(`Unknown compliance checks: ${unknownChecks.join(', ')}`);
+  }
+
+  const column = values.column === undefined ? undefined : /^\d+$/.test(values.column) ? Number(values.column) - 1 : values.column;
+  // Bad lines in a file are reported and skipped; bad arguments are a usage error
+  const importFrom = (text: string, source: string): string[] => {
+    let imported: ImportResult;
+    try {
+      imported = importTargets(text, { column });
+    } catch (err) {
+      throw new UsageError((err as Error).message);
+    }
+    for (const { line, value, reason } of imported.invalid) {
+      process.stderr.write(`${source}:${line}: skipped ${value ? `"${value}" ` : ''}(${reason})\n`);
+    }
+    return imported.entries;
+  };
+
+  let ips = [...positionals];
+  if (values.file) {
+    ips.push(...importFrom(fs.readFileSync(values.file, 'utf8'), values.file));
+  }
+  if (ips.length === 0 && !values.file && !process.stdin.isTTY) {
+    ips = importFrom(await readStdin(), 'stdin');
+  }
+
+  const maxAddresses = values['max-addresses'] ? Number(values['max-addresses']) : DEFAULT_MAX_ADDRESSES;
+  if (!Number.isInteger(maxAddresses) || maxAddresses < 1) {
+    throw new UsageError('--max-addresses must be a positive integer');
+  }
+  let targets;
+  try {
+    targets = expandTargets(ips, maxAddresses);
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+  if (targets.invalid.length > 0) {
+    throw new UsageError(`Invalid IP addresses: ${targets.invalid.join(', ')}`);
+  }
+
+  const lookup = parseLookupRequest({
+    ips: targets.ips,
+    providers: splitList(values.providers),
+    fresh: values.fresh
+  });
+  if (!lookup.ok) {
+    throw new UsageError(lookup.error);
+  }
+  const listNames = new Set(lookup.providers.flatMap(provider => Object.values(provider.codes)));
+  const unknownLists = (splitList(values.lists) ?? []).filter(
+    list => list !== 'any' && list !== 'none' && !listNames.has(list)
+  );
+  if (unknownLists.length > 0) {
+    throw new UsageError(`Unknown lists for the selected providers: ${unknownLists.join(', ')}`);
+  }
+
+  const concurrency = resolveConcurrency(values.concurrency ? Number(values.concurrency) : undefined);
+  const results = await mapWithConcurrency(lookup.ips, concurrency, ip =>
+    iplookup(ip, lookup.providers, { fresh: lookup.fresh })
+  );
+
+  const countsList = selector(values.lists);
+  const countsCheck = selector(values.checks);
+  const reasons = new Map(results.map(result => [result.ip, failures(result, countsList, countsCheck)]));
+
+  if (isExportFormat(values.output)) {
+    process.stdout.write(exportResults(results, values.output) + '\n');
+  } else {
+    process.stdout.write(formatTable(results, reasons) + '\n');
+  }
+
+  if ([...reasons.values()].some(reason => reason.length > 0)) return EXIT_FAILED;
+  if (results.some(hasLookupErrors)) return EXIT_DNS_ERRORS;
+  return EXIT_OK;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    const isUsage = err instanceof UsageError || (err as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`${(err as Error).message}\n${isUsage ? `\n${USAGE}` : ''}`);
+    process.exitCode = isUsage ? EXIT_USAGE : EXIT_RUNTIME;
+  }
+);
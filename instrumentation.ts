@@ -0,0 +1,10 @@
+// instrumentation.ts
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startWatchlistScheduler } = await import('./utils/watchlist');
+    startWatchlistScheduler();
+    const { startCaseScheduler } = await import('./utils/cases');
+    startCaseScheduler();
+  }
+}
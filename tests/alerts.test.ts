@@ -0,0 +1,145 @@
+// tests/alerts.test.ts
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import type * as Alerts from '../utils/alerts';
+import type * as Watchlist from '../utils/watchlist';
+import type { StatusChange } from '../utils/types';
+import { startDnsServer, type DnsServer, type Zone } from './helpers/dnsServer';
+import { startHttpReceiver, startSmtpSink, type HttpReceiver, type SmtpSink } from './helpers/receivers';
+
+const IP = '192.0.2.1';
+const LISTING = '1.2.0.192.all.spamrats.com';
+
+// Every name the lookups ask for is NXDOMAIN until a test lists the IP
+const zone: Zone = {};
+
+describe('alert delivery', () => {
+  let dns: DnsServer;
+  let webhook: HttpReceiver;
+  let smtp: SmtpSink;
+  let dataDir: string;
+  let alerts: typeof Alerts;
+  let watchlist: typeof Watchlist;
+
+  before(async () => {
+    [dns, webhook, smtp] = await Promise.all([startDnsServer(zone), startHttpReceiver(), startSmtpSink()]);
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spamrat-alerts-'));
+    // Stores and the resolver read their settings when first used, so set them before importing
+    Object.assign(process.env, {
+      DATA_DIR: dataDir,
+      DNS_NAMESERVERS: dns.address,
+      DNS_TIMEOUT_MS: '1000',
+      DNS_RETRIES: '0',
+      DNS_CACHE: 'off',
+      LOG_LEVEL: 'silent',
+      ALERT_WEBHOOKS: JSON.stringify([{ url: webhook.url, format: 'json' }]),
+      ALERT_SMTP_URL: smtp.url,
+      ALERT_EMAIL_TO: 'postmaster@example.test',
+      ALERT_DEDUP_MINUTES: '60'
+    });
+    alerts = await import('../utils/alerts');
+    watchlist = await import('../utils/watchlist');
+  });
+
+  after(async () => {
+    await Promise.all([dns.close(), webhook.close(), smtp.close()]);
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sends nothing for the first check of a new IP', async () => {
+    await watchlist.addToWatchlist([IP], { providers: ['spamrats'] });
+    await watchlist.checkWatchlist();
+    assert.equal(webhook.requests.length, 0);
+    assert.equal(smtp.messages.length, 0);
+  });
+
+  it('delivers a listing to the webhook and by email', async () => {
+    zone[LISTING] = { A: ['127.0.0.38'] };
+    await watchlist.checkWatchlist();
+
+    assert.equal(webhook.requests.length, 1);
+    assert.deepEqual(
+      { ...(webhook.requests[0] as Alerts.Alert), timestamp: undefined },
+      {
+        event: 'listed',
+        ip: IP,
+        provider: 'spamrats',
+        list: 'RATS-Spam',
+        from: 'Not on the list',
+        to: 'On the list',
+        timestamp: undefined
+      }
+    );
+    assert.equal(smtp.messages.length, 1);
+    assert.deepEqual(smtp.messages[0].to, ['postmaster@example.test']);
+    assert.match(smtp.messages[0].data, /^Subject: 192\.0\.2\.1 was listed on RATS-Spam$/m);
+  });
+
+  it('sends the same alert once per dedup window', async () => {
+    delete zone[LISTING];
+    await watchlist.checkWatchlist();
+    assert.equal((webhook.requests.at(-1) as Alerts.Alert).event, 'delisted');
+    const delivered = webhook.requests.length;
+
+    // Listed again within the window: the change is recorded but not alerted
+    zone[LISTING] = { A: ['127.0.0.38'] };
+    const changes = await watchlist.checkWatchlist();
+    assert.ok(changes.some(change => change.name === 'RATS-Spam' && change.to === 'On the list'));
+    assert.equal(webhook.requests.length, delivered);
+    assert.equal(smtp.messages.length, 2);
+  });
+
+  it('does not count a failed delivery toward the dedup window', async () => {
+    const change: StatusChange = {
+      ip: '192.0.2.2',
+      checkedAt: new Date().toISOString(),
+      kind: 'list',
+      provider: 'spamrats',
+      name: 'RATS-Dyna',
+      from: 'Not on the list',
+      to: 'On the list'
+    };
+    const attempts = webhook.requests.length;
+
+    webhook.status = 500;
+    assert.deepEqual(await alerts.notifyChanges([change]), []);
+    assert.equal(webhook.requests.length, attempts + 1);
+
+    webhook.status = 200;
+    const delivered = await alerts.notifyChanges([change]);
+    assert.deepEqual(delivered.map(alert => alert.ip), ['192.0.2.2']);
+    assert.equal(webhook.requests.length, attempts + 2);
+
+    // Now it was delivered, the window applies
+    assert.deepEqual(await alerts.notifyChanges([change]), []);
+    assert.equal(webhook.requests.length, attempts + 2);
+  });
+
+  it('retries a failed alert on the next check without a new change', async () => {
+    const ip = '192.0.2.3';
+    const listing = '3.2.0.192.all.spamrats.com';
+    await watchlist.addToWatchlist([ip], { providers: ['spamrats'] });
+    await watchlist.checkWatchlist([ip]);
+
+    webhook.status = 500;
+    zone[listing] = { A: ['127.0.0.38'] };
+    await watchlist.checkWatchlist([ip]);
+    const failed = webhook.requests.length;
+    assert.equal((webhook.requests.at(-1) as Alerts.Alert).ip, ip);
+
+    // The watchlist already records the listing, so only the pending alert can be sent
+    webhook.status = 200;
+    assert.deepEqual(await watchlist.checkWatchlist([ip]), []);
+    assert.equal(webhook.requests.length, failed + 1);
+    const retried = webhook.requests.at(-1) as Alerts.Alert;
+    assert.equal(retried.ip, ip);
+    assert.equal(retried.event, 'listed');
+
+    // Delivered now, so the next check sends nothing
+    await watchlist.checkWatchlist([ip]);
+    assert.equal(webhook.requests.length, failed + 1);
+  });
+});
@@ -0,0 +1,83 @@
+// tests/dnsFixture.test.ts
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import type * as DnsFixture from '../utils/dnsFixture';
+import type * as IpLookup from '../utils/iplookup';
+import type * as Providers from '../utils/dnsblProviders';
+import type { IPLookupResponse } from '../utils/types';
+import { startDnsServer, type DnsServer, type Zone } from './helpers/dnsServer';
+
+const IP = '192.0.2.1';
+
+const zone: Zone = {
+  '1.2.0.192.all.spamrats.com': { A: ['127.0.0.38'] },
+  '1.2.0.192.zen.spamhaus.org': { rcode: 2 },
+  '1.2.0.192.in-addr.arpa': { PTR: ['mail.example.test'] },
+  'mail.example.test': { A: [IP] }
+};
+
+// The recording flushes to disk a second after the last query
+const waitForSave = () => new Promise(resolve => setTimeout(resolve, 1200));
+
+describe('DNS record and replay', () => {
+  let dns: DnsServer;
+  let dir: string;
+  let file: string;
+  let fixtures: typeof DnsFixture;
+  let iplookup: typeof IpLookup.iplookup;
+  let providers: Providers.DnsblProvider[];
+  let recorded: IPLookupResponse;
+
+  before(async () => {
+    dns = await startDnsServer(zone);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spamrat-fixture-'));
+    file = path.join(dir, 'fixture.json');
+    Object.assign(process.env, { DNS_CACHE: 'off', LOG_LEVEL: 'silent' });
+    fixtures = await import('../utils/dnsFixture');
+    ({ iplookup } = await import('../utils/iplookup'));
+    const { createResolver } = await import('../utils/dnsResolver');
+    const { selectProviders } = await import('../utils/dnsblProviders');
+    providers = selectProviders(['spamrats', 'spamhaus-zen']).providers;
+
+    const live = createResolver({ nameservers: [dns.address], timeoutMs: 1000, retries: 0 });
+    recorded = await iplookup(IP, providers, { resolver: fixtures.createRecordingResolver(live, file) });
+    await waitForSave();
+    // Nothing may reach the network from here on
+    await dns.close();
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records the live answers', () => {
+    const statuses = recorded.providers.flatMap(provider => provider.listStatuses);
+    assert.ok(statuses.some(status => status.list === 'RATS-Spam' && status.status === 'On the list'));
+    assert.ok(statuses.some(status => status.status === 'Error' && status.errorCode === 'ESERVFAIL'));
+  });
+
+  it('replays the same lookup without the server', async () => {
+    const replayed = await iplookup(IP, providers, { resolver: fixtures.createReplayResolver(file) });
+    assert.deepEqual({ ...replayed, resolver: undefined }, { ...recorded, resolver: undefined });
+  });
+
+  it('throws recorded errors again with their code', async () => {
+    const resolver = fixtures.createReplayResolver(file);
+    const code = await resolver.query('A', '1.2.0.192.zen.spamhaus.org').then(
+      () => assert.fail('SERVFAIL replayed as an answer'),
+      (err: NodeJS.ErrnoException) => err.code
+    );
+    assert.equal(code, 'ESERVFAIL');
+  });
+
+  it('reports a query the fixture lacks as an error, not a clean result', async () => {
+    const replayed = await iplookup('192.0.2.2', providers, { resolver: fixtures.createReplayResolver(file) });
+    for (const status of replayed.providers.flatMap(provider => provider.listStatuses)) {
+      assert.equal(status.status, 'Error', status.list);
+      assert.equal(status.errorCode, fixtures.MISSING_ANSWER_CODE, status.list);
+    }
+  });
+});
@@ -0,0 +1,199 @@
+// tests/dnsResolver.test.ts
+import assert from 'node:assert/strict';
+import https from 'https';
+import type { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import tls from 'tls';
+import { DnsError, dnsErrorCode, isNegativeAnswer } from '../utils/dnsErrors';
+import { createResolver, type DnsResolver } from '../utils/dnsResolver';
+import { decodeResponse, encodeQuery, RecordType } from '../utils/dnsWire';
+import { answerQuery, startDnsServer, type DnsServer, type Zone } from './helpers/dnsServer';
+import { createTestCertificate } from './helpers/tls';
+
+const zone: Zone = {
+  'mail.example.test': {
+    A: ['192.0.2.25'],
+    AAAA: ['2001:db8::25'],
+    TXT: [['v=spf1 ', 'ip4:192.0.2.0/24 -all']]
+  },
+  'example.test': { MX: [{ priority: 10, exchange: 'mail.example.test' }] },
+  '25.2.0.192.in-addr.arpa': { PTR: ['mail.example.test'] },
+  'broken.example.test': { rcode: 2 },
+  'refused.example.test': { rcode: 5 }
+};
+
+// The error code a query fails with
+async function failure(resolver: DnsResolver, kind: 'A' | 'TXT', name: string): Promise<string> {
+  const err = await resolver.query(kind, name).then(
+    () => assert.fail(`${kind} ${name} resolved`),
+    (err: unknown) => err
+  );
+  return dnsErrorCode(err);
+}
+
+describe('DNS error codes', () => {
+  it('treats NXDOMAIN and NODATA as answers', () => {
+    assert.equal(isNegativeAnswer(new DnsError('ENOTFOUND', 'example.test')), true);
+    assert.equal(isNegativeAnswer(new DnsError('ENODATA', 'example.test')), true);
+    assert.equal(isNegativeAnswer(Object.assign(new Error('queryA ENOTFOUND'), { code: 'ENOTFOUND' })), true);
+  });
+
+  it('treats every other failure as an error', () => {
+    for (const code of ['ESERVFAIL', 'ETIMEOUT', 'ECONNREFUSED', 'EREFUSED', 'EBADRESP', 'ENOFIXTURE']) {
+      assert.equal(isNegativeAnswer(new DnsError(code, 'example.test')), false, code);
+    }
+    assert.equal(isNegativeAnswer(new Error('socket hang up')), false);
+    assert.equal(dnsErrorCode(new Error('socket hang up')), 'EUNKNOWN');
+  });
+});
+
+// The same answers and error codes through every transport
+function resolverContract(resolve: () => DnsResolver) {
+  it('returns records', async () => {
+    const resolver = resolve();
+    assert.deepEqual((await resolver.query('A', 'mail.example.test')).records, ['192.0.2.25']);
+    assert.deepEqual((await resolver.query('AAAA', 'mail.example.test')).records, ['2001:db8::25']);
+    assert.deepEqual((await resolver.query('TXT', 'mail.example.test')).records, [['v=spf1 ', 'ip4:192.0.2.0/24 -all']]);
+    assert.deepEqual((await resolver.query('MX', 'example.test')).records, [{ priority: 10, exchange: 'mail.example.test' }]);
+    assert.deepEqual((await resolver.query('PTR', '25.2.0.192.in-addr.arpa')).records, ['mail.example.test']);
+  });
+
+  it('maps NXDOMAIN and NODATA to negative answers', async () => {
+    const resolver = resolve();
+    assert.equal(await failure(resolver, 'A', 'missing.example.test'), 'ENOTFOUND');
+    assert.equal(await failure(resolver, 'TXT', 'example.test'), 'ENODATA');
+  });
+
+  it('maps SERVFAIL and REFUSED to errors', async () => {
+    const resolver = resolve();
+    assert.equal(await failure(resolver, 'A', 'broken.example.test'), 'ESERVFAIL');
+    assert.equal(await failure(resolver, 'A', 'refused.example.test'), 'EREFUSED');
+  });
+}
+
+describe('system resolver', () => {
+  let server: DnsServer;
+  before(async () => {
+    server = await startDnsServer(zone);
+  });
+  after(() => server.close());
+
+  resolverContract(() => createResolver({ nameservers: [server.address], timeoutMs: 1000, retries: 0 }));
+});
+
+describe('DNS wire format', () => {
+  it('decodes the answers to an encoded query', () => {
+    const query = encodeQuery(0x1234, 'mail.example.test', RecordType.TXT);
+    const response = decodeResponse(answerQuery(query, zone));
+    assert.equal(response.id, 0x1234);
+    assert.equal(response.rcode, 0);
+    assert.deepEqual(response.answers, [{ type: RecordType.TXT, ttl: 300, data: ['v=spf1 ', 'ip4:192.0.2.0/24 -all'] }]);
+  });
+
+  it('follows compressed names in MX answers', () => {
+    const response = decodeResponse(answerQuery(encodeQuery(1, 'example.test', RecordType.MX), zone));
+    assert.deepEqual(response.answers[0].data, { priority: 10, exchange: 'mail.example.test' });
+  });
+
+  it('rejects truncated messages', () => {
+    const response = answerQuery(encodeQuery(1, 'mail.example.test', RecordType.A), zone);
+    assert.throws(() => decodeResponse(response.subarray(0, 8)), /Truncated/);
+    assert.throws(() => decodeResponse(response.subarray(0, 20)), /Truncated/);
+  });
+});
+
+const certificate = createTestCertificate();
+const noCertificate = certificate ? false : 'openssl is not available to create a test certificate';
+
+// The test servers use a self-signed certificate
+function trustTestCertificate() {
+  before(() => {
+    process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
+  });
+  after(() => {
+    delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+  });
+}
+
+describe('DoH upstream', { skip: noCertificate }, () => {
+  let server: https.Server;
+  let port: number;
+  trustTestCertificate();
+  before(async () => {
+    server = https.createServer({ ...certificate }, (req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        if (req.url === '/garbage') {
+          res.writeHead(200, { 'Content-Type': 'application/dns-message' }).end(Buffer.from('not dns'));
+          return;
+        }
+        if (req.url !== '/dns-query' || req.headers['content-type'] !== 'application/dns-message') {
+          res.writeHead(415).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/dns-message' }).end(answerQuery(Buffer.concat(chunks), zone));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  resolverContract(() =>
+    createResolver({ nameservers: [], timeoutMs: 2000, retries: 0, upstream: `https://127.0.0.1:${port}/dns-query` })
+  );
+
+  it('reports an HTTP error as a bad response', async () => {
+    const resolver = createResolver({
+      nameservers: [],
+      timeoutMs: 2000,
+      retries: 0,
+      upstream: `https://127.0.0.1:${port}/wrong-path`
+    });
+    assert.equal(await failure(resolver, 'A', 'mail.example.test'), 'EBADRESP');
+  });
+
+  it('reports an undecodable answer as a bad response', async () => {
+    const resolver = createResolver({
+      nameservers: [],
+      timeoutMs: 2000,
+      retries: 0,
+      upstream: `https://127.0.0.1:${port}/garbage`
+    });
+    assert.equal(await failure(resolver, 'A', 'mail.example.test'), 'EBADRESP');
+  });
+
+  it('reports an unreachable upstream as refused', async () => {
+    const resolver = createResolver({ nameservers: [], timeoutMs: 2000, retries: 0, upstream: 'https://127.0.0.1:1/dns-query' });
+    assert.equal(await failure(resolver, 'A', 'mail.example.test'), 'ECONNREFUSED');
+  });
+});
+
+describe('DoT upstream', { skip: noCertificate }, () => {
+  let server: tls.Server;
+  let port: number;
+  trustTestCertificate();
+  before(async () => {
+    // Messages are framed with a two-byte length (RFC 7858)
+    server = tls.createServer({ ...certificate }, socket => {
+      let received = Buffer.alloc(0);
+      socket.on('data', chunk => {
+        received = Buffer.concat([received, chunk]);
+        if (received.length < 2 || received.length < received.readUInt16BE(0) + 2) return;
+        const response = answerQuery(received.subarray(2, received.readUInt16BE(0) + 2), zone);
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(response.length, 0);
+        socket.end(Buffer.concat([length, response]));
+      });
+      socket.on('error', () => undefined);
+    });
+    await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  resolverContract(() =>
+    createResolver({ nameservers: [], timeoutMs: 2000, retries: 0, upstream: `tls://localhost:${port}` })
+  );
+});
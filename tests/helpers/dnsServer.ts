@@ -0,0 +1,106 @@
+// tests/helpers/dnsServer.ts
+// Stub DNS server answering from an in-memory zone: over UDP for the system
+// resolver, and as raw wire messages for DoH/DoT endpoints
+import dgram from 'dgram';
+import type { AddressInfo } from 'net';
+import { ipv6Nibbles } from '../../utils/ipValidator';
+
+export interface ZoneEntry {
+  A?: string[];
+  AAAA?: string[];
+  PTR?: string[];
+  MX?: { priority: number; exchange: string }[];
+  TXT?: string[][];
+  // Answer every query for the name with this RCODE instead, e.g. 2 (SERVFAIL)
+  rcode?: number;
+}
+
+// Keyed by lower-case name without the trailing dot. Names that are missing
+// answer NXDOMAIN; record types that are missing answer NOERROR with no data.
+export type Zone = Record<string, ZoneEntry>;
+
+const TYPE_NAMES: Record<number, keyof ZoneEntry> = { 1: 'A', 12: 'PTR', 15: 'MX', 16: 'TXT', 28: 'AAAA' };
+
+const TTL = 300;
+
+function encodeName(name: string): Buffer {
+  return Buffer.concat([
+    ...name.split('.').map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label, 'ascii')])),
+    Buffer.from([0])
+  ]);
+}
+
+function encodeRdata(type: number, value: unknown): Buffer {
+  switch (type) {
+    case 1:
+      return Buffer.from((value as string).split('.').map(Number));
+    case 28:
+      return Buffer.from(ipv6Nibbles(value as string).join(''), 'hex');
+    case 12:
+      return encodeName(value as string);
+    case 15: {
+      const { priority, exchange } = value as { priority: number; exchange: string };
+      const preference = Buffer.alloc(2);
+      preference.writeUInt16BE(priority, 0);
+      return Buffer.concat([preference, encodeName(exchange)]);
+    }
+    default:
+      return Buffer.concat(
+        (value as string[]).map(chunk => Buffer.concat([Buffer.from([Buffer.byteLength(chunk)]), Buffer.from(chunk)]))
+      );
+  }
+}
+
+// The response to one wire-format query
+export function answerQuery(query: Buffer, zone: Zone): Buffer {
+  const labels: string[] = [];
+  let offset = 12;
+  while (query[offset] !== 0) {
+    labels.push(query.toString('ascii', offset + 1, offset + 1 + query[offset]));
+    offset += query[offset] + 1;
+  }
+  const type = query.readUInt16BE(offset + 1);
+  const questionEnd = offset + 5;
+
+  const entry = zone[labels.join('.').toLowerCase()];
+  const rcode = entry ? (entry.rcode ?? 0) : 3;
+  const values = rcode === 0 ? ((entry?.[TYPE_NAMES[type]] as unknown[] | undefined) ?? []) : [];
+
+  const header = Buffer.from(query.subarray(0, 12));
+  header.writeUInt16BE(0x8180 | rcode, 2);
+  header.writeUInt16BE(values.length, 6);
+  header.writeUInt32BE(0, 8);
+
+  const answers = values.map(value => {
+    const rdata = encodeRdata(type, value);
+    const fixed = Buffer.alloc(12);
+    // Compression pointer to the question name
+    fixed.writeUInt16BE(0xc00c, 0);
+    fixed.writeUInt16BE(type, 2);
+    fixed.writeUInt16BE(1, 4);
+    fixed.writeUInt32BE(TTL, 6);
+    fixed.writeUInt16BE(rdata.length, 10);
+    return Buffer.concat([fixed, rdata]);
+  });
+  return Buffer.concat([header, query.subarray(12, questionEnd), ...answers]);
+}
+
+export interface DnsServer {
+  // host:port, as DNS_NAMESERVERS takes it
+  address: string;
+  close(): Promise<void>;
+}
+
+// Serve the zone over UDP on a free local port; the zone may be changed while it runs
+export async function startDnsServer(zone: Zone): Promise<DnsServer> {
+  const socket = dgram.createSocket('udp4');
+  socket.on('message', (message, remote) => {
+    socket.send(answerQuery(message, zone), remote.port, remote.address);
+  });
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+
+  return {
+    address: `127.0.0.1:${(socket.address() as AddressInfo).port}`,
+    close: () => new Promise(resolve => socket.close(() => resolve()))
+  };
+}
@@ -0,0 +1,106 @@
+// tests/helpers/receivers.ts
+// Local endpoints that record what alert deliveries send them
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+
+export interface HttpReceiver {
+  url: string;
+  // Parsed JSON bodies, in the order they arrived
+  requests: unknown[];
+  // Status to answer with; 200 unless a test sets another
+  status: number;
+  close(): Promise<void>;
+}
+
+export async function startHttpReceiver(): Promise<HttpReceiver> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      receiver.requests.push(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      res.writeHead(receiver.status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const receiver: HttpReceiver = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+    requests: [],
+    status: 200,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+  return receiver;
+}
+
+export interface SinkMessage {
+  from: string;
+  to: string[];
+  // Headers and body as sent after DATA
+  data: string;
+}
+
+export interface SmtpSink {
+  // smtp:// URL, as ALERT_SMTP_URL takes it
+  url: string;
+  messages: SinkMessage[];
+  close(): Promise<void>;
+}
+
+// Accepts every message without authentication or STARTTLS
+export async function startSmtpSink(): Promise<SmtpSink> {
+  const messages: SinkMessage[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let message: SinkMessage = { from: '', to: [], data: '' };
+    let inData = false;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.setEncoding('utf8');
+    reply('220 localhost ESMTP sink');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(message);
+            message = { from: '', to: [], data: '' };
+            reply('250 Queued');
+          } else {
+            message.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') reply('250 localhost');
+        else if (command === 'MAIL') {
+          message.from = line.replace(/^MAIL FROM:\s*<?([^>\s]*)>?.*$/i, '$1');
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          message.to.push(line.replace(/^RCPT TO:\s*<?([^>\s]*)>?.*$/i, '$1'));
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else reply('250 OK');
+      }
+    });
+    socket.on('error', () => undefined);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `smtp://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,34 @@
+// tests/helpers/tls.ts
+// Throwaway certificate for local DoH/DoT test servers
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface TestCertificate {
+  key: Buffer;
+  cert: Buffer;
+}
+
+// Self-signed for localhost and 127.0.0.1; null when openssl is not installed
+export function createTestCertificate(): TestCertificate | null {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spamrat-tls-'));
+  try {
+    execFileSync(
+      'openssl',
+      [
+        'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1',
+        '-subj', '/CN=localhost',
+        '-addext', 'subjectAltName=DNS:localhost,IP:127.0.0.1',
+        '-keyout', path.join(dir, 'key.pem'),
+        '-out', path.join(dir, 'cert.pem')
+      ],
+      { stdio: 'ignore' }
+    );
+    return { key: fs.readFileSync(path.join(dir, 'key.pem')), cert: fs.readFileSync(path.join(dir, 'cert.pem')) };
+  } catch (err) {
+    return null;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
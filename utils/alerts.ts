@@ -0,0 +1,259 @@
+// utils/alerts.ts
+import nodemailer from 'nodemailer';
+import { parseInteger } from './env';
+import { createJsonStore, dataPath } from './jsonStore';
+import { logger } from './logger';
+import type { StatusChange } from './types';
+
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export interface WebhookTarget {
+  url: string;
+  format: WebhookFormat;
+}
+
+export interface AlertConfig {
+  webhooks: WebhookTarget[];
+  // smtp:// or smtps:// URL, credentials included; email is off without it
+  smtpUrl?: string;
+  emailFrom?: string;
+  emailTo: string[];
+  // The same alert (IP, list, direction) is sent at most once per window
+  dedupMinutes: number;
+}
+
+export interface Alert {
+  event: 'listed' | 'delisted';
+  ip: string;
+  provider: string;
+  list: string;
+  from: string;
+  to: string;
+  timestamp: string;
+}
+
+interface AlertState {
+  // Dedup key -> ISO time the alert was last sent
+  sent: Record<string, string>;
+  // Alerts a channel failed to take, sent again with the next changes
+  pending?: Alert[];
+}
+
+const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'slack', 'teams'];
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Oldest undelivered alerts are dropped beyond this, so a dead channel cannot grow the file forever
+const MAX_PENDING_ALERTS = 1000;
+
+const store = createJsonStore<AlertState>(process.env.ALERTS_FILE || dataPath('alerts.json'), () => ({
+  sent: {}
+}));
+
+export function loadAlertConfig(env: NodeJS.ProcessEnv = process.env): AlertConfig {
+  let webhooks: WebhookTarget[] = [];
+  if (env.ALERT_WEBHOOKS) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env.ALERT_WEBHOOKS);
+    } catch (err) {
+      throw new Error('ALERT_WEBHOOKS must be valid JSON');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('ALERT_WEBHOOKS must be a JSON array');
+    }
+    webhooks = parsed.map((target: Partial<WebhookTarget>) => {
+      const format = target.format ?? 'json';
+      if (!target.url || !WEBHOOK_FORMATS.includes(format)) {
+        throw new Error(`Each ALERT_WEBHOOKS entry needs a url and a format of ${WEBHOOK_FORMATS.join(', ')}`);
+      }
+      return { url: target.url, format };
+    });
+  }
+
+  return {
+    webhooks,
+    smtpUrl: env.ALERT_SMTP_URL || undefined,
+    emailFrom: env.ALERT_EMAIL_FROM || undefined,
+    emailTo: (env.ALERT_EMAIL_TO || '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean),
+    dedupMinutes: parseInteger(env.ALERT_DEDUP_MINUTES, 'ALERT_DEDUP_MINUTES', 60)
+  };
+}
+
+// Only moves between "Not on the list" and "On the list" are alerts; the
+// first check of a new IP and compliance changes are not
+export function alertsFromChanges(changes: StatusChange[]): Alert[] {
+  return changes
+    .filter(change => change.kind === 'list' && change.from !== null)
+    .filter(change =>
+      (change.from === 'Not on the list' && change.to === 'On the list') ||
+      (change.from === 'On the list' && change.to === 'Not on the list')
+    )
+    .map(change => ({
+      event: change.to === 'On the list' ? 'listed' : 'delisted',
+      ip: change.ip,
+      provider: change.provider ?? '',
+      list: change.name,
+      from: change.from as string,
+      to: change.to,
+      timestamp: change.checkedAt
+    }));
+}
+
+function describe(alert: Alert): string {
+  return alert.event === 'listed'
+    ? `${alert.ip} was listed on ${alert.list}`
+    : `${alert.ip} was delisted from ${alert.list}`;
+}
+
+function webhookPayload(alert: Alert, format: WebhookFormat): unknown {
+  switch (format) {
+    case 'slack':
+      return {
+        text: `${alert.event === 'listed' ? ':rotating_light:' : ':white_check_mark:'} ${describe(alert)}`,
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: `*${describe(alert)}*` } },
+          {
+            type: 'section',
+            fields: [
+              { type: 'mrkdwn', text: `*IP*\n${alert.ip}` },
+              { type: 'mrkdwn', text: `*List*\n${alert.list}` },
+              { type: 'mrkdwn', text: `*Was*\n${alert.from}` },
+              { type: 'mrkdwn', text: `*Now*\n${alert.to}` }
+            ]
+          },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: alert.timestamp }] }
+        ]
+      };
+    case 'teams':
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: describe(alert),
+        themeColor: alert.event === 'listed' ? 'D70000' : '2EB886',
+        title: describe(alert),
+        sections: [
+          {
+            facts: [
+              { name: 'IP', value: alert.ip },
+              { name: 'List', value: alert.list },
+              { name: 'Was', value: alert.from },
+              { name: 'Now', value: alert.to },
+              { name: 'Time', value: alert.timestamp }
+            ]
+          }
+        ]
+      };
+    default:
+      return alert;
+  }
+}
+
+async function sendWebhook(target: WebhookTarget, alert: Alert): Promise<void> {
+  const res = await fetch(target.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(webhookPayload(alert, target.format)),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  if (!res.ok) throw new Error(`Webhook ${target.url} returned HTTP ${res.status}`);
+}
+
+async function sendEmail(config: AlertConfig, alerts: Alert[]): Promise<void> {
+  if (!config.smtpUrl || config.emailTo.length === 0) return;
+
+  const transport = nodemailer.createTransport(config.smtpUrl);
+  const subject =
+    alerts.length === 1 ? describe(alerts[0]) : `${alerts.length} DNSBL listing changes`;
+  const lines = alerts.map(
+    alert => `${alert.timestamp}  ${alert.ip}  ${alert.list}: ${alert.from} -> ${alert.to}`
+  );
+
+  await transport.sendMail({
+    from: config.emailFrom || config.emailTo[0],
+    to: config.emailTo,
+    subject,
+    text: lines.join('\n')
+  });
+}
+
+interface Delivery {
+  errors: string[];
+  // Alerts at least one channel could not take
+  failed: Set<Alert>;
+}
+
+async function deliver(alerts: Alert[], config: AlertConfig): Promise<Delivery> {
+  const delivery: Delivery = { errors: [], failed: new Set() };
+  const attempt = async (send: () => Promise<void>, covered: Alert[]) => {
+    try {
+      await send();
+    } catch (err) {
+      delivery.errors.push(err instanceof Error ? err.message : String(err));
+      covered.forEach(alert => delivery.failed.add(alert));
+    }
+  };
+
+  await Promise.all([
+    ...config.webhooks.flatMap(target => alerts.map(alert => attempt(() => sendWebhook(target, alert), [alert]))),
+    attempt(() => sendEmail(config, alerts), alerts)
+  ]);
+  return delivery;
+}
+
+// Deliver alerts to every configured channel; returns the delivery errors
+export async function deliverAlerts(alerts: Alert[], config: AlertConfig = loadAlertConfig()): Promise<string[]> {
+  if (alerts.length === 0) return [];
+  return (await deliver(alerts, config)).errors;
+}
+
+const alertKey = (alert: Alert) => `${alert.ip}|${alert.provider}|${alert.list}|${alert.event}`;
+
+/**
+ * Turn status changes into alerts and deliver the ones not already sent
+ * within the dedup window, so a flapping listing alerts once per window.
+ * An alert is only recorded as sent once every channel took it; until then
+ * it stays pending and is retried on every later call, with or without new
+ * changes. Returns the alerts delivered.
+ */
+export async function notifyChanges(changes: StatusChange[]): Promise<Alert[]> {
+  const config = loadAlertConfig();
+  const alerts = alertsFromChanges(changes);
+  if (alerts.length === 0 && !(await store.read()).pending?.length) return [];
+
+  const due = await store.update(state => {
+    const now = Date.now();
+    const windowMs = config.dedupMinutes * 60 * 1000;
+    // Forget keys that can no longer suppress anything
+    for (const [key, sentAt] of Object.entries(state.sent)) {
+      if (now - Date.parse(sentAt) >= windowMs) delete state.sent[key];
+    }
+
+    // Claim the pending alerts, so a concurrent call does not send them too
+    const pending = state.pending ?? [];
+    state.pending = [];
+
+    const keys = new Set<string>();
+    return [...pending, ...alerts].filter(alert => {
+      const key = alertKey(alert);
+      if (state.sent[key] || keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    });
+  });
+  if (due.length === 0) return [];
+
+  const { errors, failed } = await deliver(due, config);
+  for (const error of errors) {
+    logger.error('alert_delivery_failed', { error });
+  }
+
+  const delivered = due.filter(alert => !failed.has(alert));
+  await store.update(state => {
+    const sentAt = new Date().toISOString();
+    for (const alert of delivered) state.sent[alertKey(alert)] = sentAt;
+    state.pending = [...(state.pending ?? []), ...due.filter(alert => failed.has(alert))].slice(-MAX_PENDING_ALERTS);
+  });
+  return delivered;
+}
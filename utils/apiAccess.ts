@@ -0,0 +1,184 @@
+// utils/apiAccess.ts
+// Optional API keys, batch-size cap and token-bucket rate limits for the lookup routes
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { parseInteger } from './env';
+import { DEFAULT_MAX_ADDRESSES } from './ipRanges';
+import { createTokenBucketLimiter, type TokenBucketLimiter } from './rateLimit';
+
+export interface AccessConfig {
+  // Accepted API keys; empty means no authentication
+  apiKeys: string[];
+  // Most IPs a single request may look up
+  maxBatchSize: number;
+  rateLimit: boolean;
+  ipBurst: number;
+  ipPerMinute: number;
+  keyBurst: number;
+  keyPerMinute: number;
+  // Signs the web UI's session tokens; random per process when unset
+  sessionSecret?: string;
+  // Reverse proxies in front of the app that append to X-Forwarded-For
+  trustedProxies: number;
+}
+
+export type AccessResult =
+  | { ok: true; client: string }
+  | { ok: false; status: 401 | 413 | 429; error: string; retryAfter?: number };
+
+export function loadAccessConfig(env: NodeJS.ProcessEnv = process.env): AccessConfig {
+  return {
+    apiKeys: (env.API_KEYS || '')
+      .split(',')
+      .map(key => key.trim())
+      .filter(Boolean),
+    maxBatchSize: parseInteger(env.MAX_BATCH_SIZE, 'MAX_BATCH_SIZE', DEFAULT_MAX_ADDRESSES),
+    rateLimit: env.RATE_LIMIT !== 'off',
+    ipBurst: parseInteger(env.RATE_LIMIT_IP_BURST, 'RATE_LIMIT_IP_BURST', DEFAULT_MAX_ADDRESSES),
+    // A bucket must refill eventually, so per-minute rates are at least 1
+    ipPerMinute: Math.max(1, parseInteger(env.RATE_LIMIT_IP_PER_MINUTE, 'RATE_LIMIT_IP_PER_MINUTE', 1000)),
+    keyBurst: parseInteger(env.RATE_LIMIT_KEY_BURST, 'RATE_LIMIT_KEY_BURST', 20000),
+    keyPerMinute: Math.max(1, parseInteger(env.RATE_LIMIT_KEY_PER_MINUTE, 'RATE_LIMIT_KEY_PER_MINUTE', 5000)),
+    sessionSecret: env.UI_SESSION_SECRET || undefined,
+    trustedProxies: parseInteger(env.TRUSTED_PROXIES, 'TRUSTED_PROXIES', 1)
+  };
+}
+
+interface AccessState {
+  config: AccessConfig;
+  // Hashed keys, so comparisons run in constant time regardless of length
+  keyHashes: Buffer[];
+  sessionKey: Buffer;
+  ipLimiter: TokenBucketLimiter;
+  keyLimiter: TokenBucketLimiter;
+}
+
+// Next.js bundles each route separately, so process-wide singletons live on globalThis
+const globalAccess = globalThis as typeof globalThis & { apiAccess?: AccessState };
+
+function getAccessState(): AccessState {
+  if (!globalAccess.apiAccess) {
+    const config = loadAccessConfig();
+    globalAccess.apiAccess = {
+      config,
+      keyHashes: config.apiKeys.map(hashKey),
+      sessionKey: config.sessionSecret ? Buffer.from(config.sessionSecret) : randomBytes(32),
+      ipLimiter: createTokenBucketLimiter({ capacity: config.ipBurst, refillPerSecond: config.ipPerMinute / 60 }),
+      keyLimiter: createTokenBucketLimiter({ capacity: config.keyBurst, refillPerSecond: config.keyPerMinute / 60 })
+    };
+  }
+  return globalAccess.apiAccess;
+}
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+function presentedKey(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  return bearer?.[1].trim() || request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * The address the outermost trusted proxy saw, counted from the right of
+ * X-Forwarded-For: entries left of it are whatever the client sent. Without
+ * a proxy, Next.js fills the header from the socket when the client sent none,
+ * so with no trusted proxies the header is ignored and every caller is 'direct'.
+ */
+function clientAddress(request: Request, trustedProxies: number): string {
+  if (trustedProxies < 1) return 'direct';
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length === 0) return 'unknown';
+  // A request that skipped some proxies carries fewer hops; take the oldest
+  return hops[Math.max(0, hops.length - trustedProxies)];
+}
+
+// Cookie carrying the web UI's session token, issued by GET /api/session
+export const UI_SESSION_COOKIE = 'spamrat_ui';
+export const UI_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+function sessionSignature(expiresAt: string): Buffer {
+  return createHmac('sha256', getAccessState().sessionKey).update(`ui:${expiresAt}`).digest();
+}
+
+// A signed "<expiry>.<signature>" token; the UI carries it instead of an API key
+export function issueUiSession(now = Date.now()): string {
+  const expiresAt = String(Math.floor(now / 1000) + UI_SESSION_TTL_SECONDS);
+  return `${expiresAt}.${sessionSignature(expiresAt).toString('base64url')}`;
+}
+
+function cookieValue(request: Request, name: string): string | null {
+  for (const pair of (request.headers.get('cookie') || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) return pair.slice(separator + 1).trim();
+  }
+  return null;
+}
+
+// The web UI carries no key; it presents the session cookie the server issued it.
+// Any client can fetch one, so a session only ties keyless callers to the per-IP bucket
+function hasUiSession(request: Request): boolean {
+  const [expiresAt, signature] = (cookieValue(request, UI_SESSION_COOKIE) || '').split('.');
+  if (!expiresAt || !signature || Number(expiresAt) * 1000 <= Date.now()) return false;
+  const expected = sessionSignature(expiresAt);
+  const presented = Buffer.from(signature, 'base64url');
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Authenticate the caller before the body is read. With API_KEYS set, a
+ * presented key must be valid, and callers without one need a UI session.
+ */
+export function authenticate(request: Request): AccessResult {
+  const { config, keyHashes } = getAccessState();
+  const key = presentedKey(request);
+
+  if (key !== null) {
+    const hash = hashKey(key);
+    const index = keyHashes.findIndex(candidate => timingSafeEqual(candidate, hash));
+    if (index === -1) return { ok: false, status: 401, error: 'Invalid API key' };
+    return { ok: true, client: `key:${index}` };
+  }
+  if (config.apiKeys.length > 0 && !hasUiSession(request)) {
+    return { ok: false, status: 401, error: 'API key required' };
+  }
+  return { ok: true, client: `ip:${clientAddress(request, config.trustedProxies)}` };
+}
+
+// Enforce the batch cap and charge one token per IP to the caller's bucket
+export function admitBatch(client: string, size: number): AccessResult {
+  const { config, ipLimiter, keyLimiter } = getAccessState();
+
+  if (size > config.maxBatchSize) {
+    return { ok: false, status: 413, error: `At most ${config.maxBatchSize} IPs per request` };
+  }
+  if (!config.rateLimit) return { ok: true, client };
+
+  const keyed = client.startsWith('key:');
+  const burst = keyed ? config.keyBurst : config.ipBurst;
+  if (size > burst) {
+    return { ok: false, status: 413, error: `At most ${burst} IPs per request under the rate limit` };
+  }
+  const taken = (keyed ? keyLimiter : ipLimiter).take(client, size);
+  if (!taken.ok) {
+    return { ok: false, status: 429, error: 'Rate limit exceeded', retryAfter: taken.retryAfter };
+  }
+  return { ok: true, client };
+}
+
+// Most IPs one request without an API key may carry, so the web UI can split larger runs
+export function uiBatchSize(): number {
+  const { config } = getAccessState();
+  return config.rateLimit ? Math.min(config.maxBatchSize, config.ipBurst) : config.maxBatchSize;
+}
+
+export function deniedResponse(denied: Extract<AccessResult, { ok: false }>): NextResponse {
+  const headers: Record<string, string> = {};
+  if (denied.status === 401) headers['WWW-Authenticate'] = 'Bearer';
+  if (denied.retryAfter !== undefined) headers['Retry-After'] = String(denied.retryAfter);
+  return NextResponse.json({ error: denied.error }, { status: denied.status, headers });
+}
@@ -0,0 +1,51 @@
+// utils/batch.ts
+const DEFAULT_CONCURRENCY = 8;
+const MAX_CONCURRENCY = 64;
+
+// Server-wide ceiling on parallel lookups, from LOOKUP_CONCURRENCY
+export function getMaxConcurrency(): number {
+  const configured = Number(process.env.LOOKUP_CONCURRENCY);
+  if (!Number.isInteger(configured) || configured < 1) return DEFAULT_CONCURRENCY;
+  return Math.min(configured, MAX_CONCURRENCY);
+}
+
+// A client may ask for less parallelism than the server allows, never more
+export function resolveConcurrency(requested?: unknown): number {
+  const max = getMaxConcurrency();
+  if (typeof requested !== 'number' || !Number.isInteger(requested) || requested < 1) return max;
+  return Math.min(requested, max);
+}
+
+/**
+ * Run worker over items with at most `limit` in flight. Once the signal is
+ * aborted no new items are started; in-flight ones are left to finish.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  await runWithConcurrency(items, limit, async (item, index) => {
+    results[index] = await mapper(item, index);
+  });
+  return results;
+}
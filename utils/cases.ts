@@ -0,0 +1,280 @@
+// utils/cases.ts
+// Delisting cases: remediation of a listed IP, re-checked until the listing is gone
+import { randomUUID } from 'crypto';
+import { getMaxConcurrency, mapWithConcurrency } from './batch';
+import { selectProviders } from './dnsblProviders';
+import { parseInteger } from './env';
+import { iplookup } from './iplookup';
+import { isValidIP, normalizeIP } from './ipValidator';
+import { createJsonStore, dataPath } from './jsonStore';
+import { errorFields, logger } from './logger';
+import type { CaseStatus, DelistingCase, ListOutcome } from './types';
+
+interface CaseData {
+  cases: DelistingCase[];
+}
+
+export const CASE_STATUSES: readonly CaseStatus[] = ['open', 'requested', 'resolved', 'relisted'];
+
+export interface NewCase {
+  ip: string;
+  provider: string;
+  list: string;
+  owner?: string;
+  notes?: string;
+  reason?: string;
+  delistUrl?: string;
+}
+
+export interface CaseUpdate {
+  owner?: string;
+  notes?: string;
+  // Replaces the remediation steps
+  remediation?: string[];
+  // Appends one remediation step
+  step?: string;
+  status?: CaseStatus;
+}
+
+const store = createJsonStore<CaseData>(process.env.CASES_FILE || dataPath('cases.json'), () => ({ cases: [] }));
+
+// Delay before a case is re-checked, from CASE_RECHECK_MINUTES
+function recheckDelayMs(): number {
+  return Math.max(1, parseInteger(process.env.CASE_RECHECK_MINUTES, 'CASE_RECHECK_MINUTES', 60)) * 60 * 1000;
+}
+
+function later(from: string): string {
+  return new Date(new Date(from).getTime() + recheckDelayMs()).toISOString();
+}
+
+function transition(entry: DelistingCase, status: CaseStatus, at: string, note: string): void {
+  entry.status = status;
+  entry.updatedAt = at;
+  entry.history.push({ at, status, note });
+}
+
+export async function listCases(): Promise<DelistingCase[]> {
+  return (await store.read()).cases;
+}
+
+export async function getCase(id: string): Promise<DelistingCase | null> {
+  return (await store.read()).cases.find(entry => entry.id === id) ?? null;
+}
+
+// Open a case for a listing; an existing unresolved case for the same listing is returned instead
+export async function createCase(input: NewCase): Promise<{ entry: DelistingCase; created: boolean }> {
+  const ip = normalizeIP(input.ip);
+  return store.update(data => {
+    const existing = data.cases.find(
+      entry => entry.ip === ip && entry.provider === input.provider && entry.list === input.list && entry.status !== 'resolved'
+    );
+    if (existing) return { entry: existing, created: false };
+
+    const now = new Date().toISOString();
+    const entry: DelistingCase = {
+      id: randomUUID(),
+      ip,
+      provider: input.provider,
+      list: input.list,
+      status: 'open',
+      owner: input.owner,
+      notes: input.notes ?? '',
+      remediation: [],
+      reason: input.reason,
+      delistUrl: input.delistUrl,
+      createdAt: now,
+      updatedAt: now,
+      lastStatus: 'On the list',
+      nextCheckAt: later(now),
+      history: [{ at: now, status: 'open', note: 'Case opened' }]
+    };
+    data.cases.push(entry);
+    return { entry, created: true };
+  });
+}
+
+export async function updateCase(id: string, update: CaseUpdate): Promise<DelistingCase | null> {
+  return store.update(data => {
+    const entry = data.cases.find(candidate => candidate.id === id);
+    if (!entry) return null;
+
+    const now = new Date().toISOString();
+    if (update.owner !== undefined) entry.owner = update.owner || undefined;
+    if (update.notes !== undefined) entry.notes = update.notes;
+    if (update.remediation !== undefined) entry.remediation = update.remediation;
+    if (update.step) entry.remediation.push(update.step);
+
+    if (update.status && update.status !== entry.status) {
+      if (update.status === 'requested') {
+        entry.delistRequestedAt = now;
+        // Give the list operator the configured delay before checking
+        entry.nextCheckAt = later(now);
+      } else if (update.status === 'resolved') {
+        entry.resolvedAt = now;
+        entry.nextCheckAt = later(now);
+      } else {
+        entry.nextCheckAt = later(now);
+      }
+      transition(entry, update.status, now, `Marked ${update.status}`);
+    }
+    entry.updatedAt = now;
+    return entry;
+  });
+}
+
+export async function deleteCase(id: string): Promise<boolean> {
+  return store.update(data => {
+    const before = data.cases.length;
+    data.cases = data.cases.filter(entry => entry.id !== id);
+    return data.cases.length < before;
+  });
+}
+
+/**
+ * Apply a fresh list outcome to a case. A listing that is gone resolves the
+ * case, and a resolved case is checked once more to confirm it; a listing that
+ * comes back turns a resolved case into "relisted".
+ */
+export function applyCheck(entry: DelistingCase, outcome: ListOutcome | null, checkedAt: string): void {
+  entry.lastCheckedAt = checkedAt;
+  entry.updatedAt = checkedAt;
+  // Errors are not answers; try again after the delay
+  if (outcome === null || outcome === 'Error') {
+    entry.nextCheckAt = later(checkedAt);
+    return;
+  }
+
+  const wasListed = entry.lastStatus !== 'Not on the list';
+  entry.lastStatus = outcome;
+
+  if (outcome === 'Not on the list') {
+    if (entry.status !== 'resolved') {
+      entry.resolvedAt = checkedAt;
+      transition(entry, 'resolved', checkedAt, `No longer on ${entry.list}`);
+      entry.nextCheckAt = later(checkedAt);
+    } else {
+      // Still delisted on the confirmation check; nothing left to watch
+      entry.nextCheckAt = wasListed ? later(checkedAt) : undefined;
+    }
+    return;
+  }
+
+  if (entry.status === 'resolved') {
+    entry.resolvedAt = undefined;
+    transition(entry, 'relisted', checkedAt, `Listed on ${entry.list} again`);
+  }
+  entry.nextCheckAt = later(checkedAt);
+}
+
+const globalCases = globalThis as typeof globalThis & {
+  // The latest run and the case ids it was asked for ("*" for the due ones)
+  caseCheck?: { key: string; run: Promise<DelistingCase[]> } | null;
+  caseTimer?: NodeJS.Timeout;
+};
+
+// The given cases, or every case whose re-check is due
+export async function casesToCheck(ids?: string[]): Promise<DelistingCase[]> {
+  const now = Date.now();
+  return (await listCases()).filter(entry =>
+    ids ? ids.includes(entry.id) : entry.nextCheckAt !== undefined && new Date(entry.nextCheckAt).getTime() <= now
+  );
+}
+
+async function runCheck(ids?: string[]): Promise<DelistingCase[]> {
+  const due = await casesToCheck(ids);
+
+  const outcomes = await mapWithConcurrency(due, getMaxConcurrency(), async entry => {
+    const { providers } = selectProviders([entry.provider]);
+    if (providers.length === 0) return null;
+    try {
+      const result = await iplookup(entry.ip, providers, { fresh: true });
+      return result.providers[0]?.listStatuses.find(status => status.list === entry.list)?.status ?? null;
+    } catch (err) {
+      return null;
+    }
+  });
+
+  return store.update(data => {
+    const checked: DelistingCase[] = [];
+    due.forEach((dueEntry, index) => {
+      // The case may have been deleted while the lookups ran
+      const entry = data.cases.find(candidate => candidate.id === dueEntry.id);
+      if (!entry) return;
+      applyCheck(entry, outcomes[index], new Date().toISOString());
+      checked.push(entry);
+    });
+    return checked;
+  });
+}
+
+// Re-check due cases, or the given ones now. A call for the same cases as the
+// latest run shares it; any other call runs after it, so runs never overlap.
+export function checkCases(ids?: string[]): Promise<DelistingCase[]> {
+  const key = ids ? JSON.stringify([...new Set(ids)].sort()) : '*';
+  const latest = globalCases.caseCheck;
+  if (latest?.key === key) return latest.run;
+
+  const run: Promise<DelistingCase[]> = (latest?.run.catch(() => undefined) ?? Promise.resolve())
+    .then(() => runCheck(ids))
+    .finally(() => {
+      if (globalCases.caseCheck?.run === run) globalCases.caseCheck = null;
+    });
+  globalCases.caseCheck = { key, run };
+  return run;
+}
+
+// Look for due cases every minute
+export function startCaseScheduler(): void {
+  // Dev-mode reloads re-run this module; keep a single timer per process
+  if (globalCases.caseTimer) return;
+
+  globalCases.caseTimer = setInterval(() => {
+    checkCases().catch(err => {
+      // The next tick tries again
+      logger.warn('case_check_failed', { error: errorFields(err) });
+    });
+  }, 60 * 1000);
+  globalCases.caseTimer.unref();
+}
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const optionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Validate a POST /api/cases body against the enabled providers and their lists
+export function parseNewCase(body: unknown): Parsed<NewCase> {
+  const input = (body ?? {}) as Record<string, unknown>;
+  if (typeof input.ip !== 'string' || !isValidIP(input.ip)) {
+    return { ok: false, error: 'A valid ip is required' };
+  }
+  const { providers } = selectProviders(typeof input.provider === 'string' ? [input.provider] : []);
+  const provider = providers.find(candidate => candidate.id === input.provider);
+  if (!provider) {
+    return { ok: false, error: 'provider must be the id of an enabled DNSBL provider' };
+  }
+  if (typeof input.list !== 'string' || !Object.values(provider.codes).includes(input.list)) {
+    return { ok: false, error: `list must be one of ${provider.name}'s lists` };
+  }
+  for (const field of ['owner', 'notes', 'reason', 'delistUrl']) {
+    if (!optionalString(input[field])) return { ok: false, error: `${field} must be a string` };
+  }
+  return { ok: true, value: input as unknown as NewCase };
+}
+
+// Validate a PATCH /api/cases/:id body
+export function parseCaseUpdate(body: unknown): Parsed<CaseUpdate> {
+  const input = (body ?? {}) as Record<string, unknown>;
+  for (const field of ['owner', 'notes', 'step']) {
+    if (!optionalString(input[field])) return { ok: false, error: `${field} must be a string` };
+  }
+  if (
+    input.remediation !== undefined &&
+    (!Array.isArray(input.remediation) || !input.remediation.every(step => typeof step === 'string'))
+  ) {
+    return { ok: false, error: 'remediation must be an array of strings' };
+  }
+  if (input.status !== undefined && !CASE_STATUSES.includes(input.status as CaseStatus)) {
+    return { ok: false, error: `status must be one of ${CASE_STATUSES.join(', ')}` };
+  }
+  return { ok: true, value: input as CaseUpdate };
+}
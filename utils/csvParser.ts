@@ -1,7 +1,172 @@
 // utils/csvParser.ts
-export function parseCSV(text: string): string[] {
-  return text
-    .split(/[\s,]+/)
-    .map((ip) => ip.trim())
-    .filter(Boolean);
-}
\ No newline at end of file
+// Import pipeline for IP lists: plain lists and CSV/TSV exports from MTA and firewall tools
+import { isTarget } from './ipRanges';
+import { normalizeIP } from './ipValidator';
+
+export interface ImportOptions {
+  // Column index (0-based) or header name holding the IPs; detected when omitted
+  column?: number | string;
+}
+
+export interface InvalidLine {
+  // 1-based line number in the imported text
+  line: number;
+  value: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  // Valid IPs, CIDR blocks and ranges, deduplicated, in input order
+  entries: string[];
+  // Header names, or "Column 1", "Column 2", ... when there is no header row
+  columns: string[];
+  // Column the entries were read from; null when every cell was taken
+  column: number | null;
+  header: boolean;
+  invalid: InvalidLine[];
+  duplicates: number;
+}
+
+interface Row {
+  line: number;
+  cells: string[];
+}
+
+const DELIMITERS = ['\t', ',', ';', '|'];
+
+// Split one line on the delimiter, honouring double-quoted fields
+export function splitLine(line: string, delimiter: string | null): string[] {
+  if (!delimiter) return [line.trim()];
+
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// The first delimiter on the first line that also appears on most of the others
+function detectDelimiter(lines: string[]): string | null {
+  const sample = lines.slice(0, 20);
+  return (
+    DELIMITERS.find(
+      delimiter =>
+        sample[0]?.includes(delimiter) && sample.filter(line => line.includes(delimiter)).length * 2 >= sample.length
+    ) ?? null
+  );
+}
+
+// Why a cell is not an importable target
+function invalidReason(value: string): string {
+  if (!value) return 'empty value';
+  const octets = value.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})(?:\/\d+)?$/);
+  if (octets && octets.slice(1).some(octet => Number(octet) > 255)) return 'octet out of range';
+  return 'not an IP address, CIDR block or range';
+}
+
+// Dotted or colon-separated numbers, e.g. a malformed "999.1.1.1" or "2001:db8::zz"
+const isAddressLike = (cell: string) =>
+  /^\d+(\.\d+)+/.test(cell) || (cell.includes(':') && /\d/.test(cell) && /^[\w.:/%-]+$/.test(cell));
+
+// Header names have letters and are not shaped like an address
+const isHeaderText = (cell: string) => /[a-z]/i.test(cell) && !isAddressLike(cell);
+
+// Old-style lists put several IPs on one line separated by spaces or commas
+function splitWords(value: string): string[] | null {
+  const words = value.split(/[\s,;]+/).filter(Boolean);
+  return words.length > 1 && words.every(isTarget) ? words : null;
+}
+
+/**
+ * Read IPs, CIDR blocks and ranges from a plain list or a CSV/TSV export.
+ * Blank lines and # comments are skipped, as is a header row; invalid values
+ * are reported by line number instead of failing the whole import.
+ */
+export function importTargets(text: string, options: ImportOptions = {}): ImportResult {
+  const lines = text.split(/\r?\n/).map((content, index) => ({ line: index + 1, content: content.trim() }));
+  const data = lines.filter(({ content }) => content.length > 0 && !content.startsWith('#'));
+
+  const delimiter = detectDelimiter(data.map(({ content }) => content));
+  const rows: Row[] = data.map(({ line, content }) => ({ line, cells: splitLine(content, delimiter) }));
+  const width = Math.max(0, ...rows.map(row => row.cells.length));
+
+  // A first row of names and no targets is a header; one that only holds bad addresses is reported as invalid
+  const header =
+    rows.length > 0 &&
+    !rows[0].cells.some(isTarget) &&
+    !splitWords(rows[0].cells[0]) &&
+    rows[0].cells.some(isHeaderText);
+  const headerCells = header ? rows[0].cells : [];
+  const body = header ? rows.slice(1) : rows;
+  const columns = Array.from({ length: width }, (_, index) => headerCells[index] || `Column ${index + 1}`);
+
+  let column: number | null;
+  if (typeof options.column === 'string') {
+    column = headerCells.findIndex(name => name.toLowerCase() === (options.column as string).toLowerCase());
+    if (column === -1) throw new Error(`Unknown column: ${options.column}`);
+  } else if (typeof options.column === 'number') {
+    if (options.column < 0 || options.column >= Math.max(width, 1)) throw new Error(`Unknown column: ${options.column + 1}`);
+    column = options.column;
+  } else {
+    // The column with the most targets; every column when all cells are targets
+    const counts = columns.map((_, index) => body.filter(row => isTarget(row.cells[index] ?? '')).length);
+    const allTargets = width > 1 && body.every(row => row.cells.every(isTarget));
+    column = allTargets ? null : counts.indexOf(Math.max(0, ...counts));
+    if (column === -1) column = 0;
+  }
+
+  const seen = new Set<string>();
+  const entries: string[] = [];
+  const invalid: InvalidLine[] = [];
+  let duplicates = 0;
+
+  const add = (value: string) => {
+    const entry = normalizeIP(value);
+    if (seen.has(entry.toLowerCase())) {
+      duplicates++;
+    } else {
+      seen.add(entry.toLowerCase());
+      entries.push(entry);
+    }
+  };
+
+  for (const row of body) {
+    const cells = column === null ? row.cells : [row.cells[column] ?? ''];
+    for (const cell of cells) {
+      if (isTarget(cell)) {
+        add(cell);
+        continue;
+      }
+      const words = splitWords(cell);
+      if (words) {
+        words.forEach(add);
+      } else if (column !== null && row.cells[column] === undefined) {
+        invalid.push({ line: row.line, value: '', reason: `missing ${columns[column]}` });
+      } else {
+        invalid.push({ line: row.line, value: cell, reason: invalidReason(cell) });
+      }
+    }
+  }
+
+  return { entries, columns, column, header, invalid, duplicates };
+}
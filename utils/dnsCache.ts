@@ -0,0 +1,151 @@
+// utils/dnsCache.ts
+import fs from 'fs';
+import path from 'path';
+import { DnsError, dnsErrorCode, isNegativeAnswer } from './dnsErrors';
+import { parseInteger } from './env';
+import type { DnsAnswer, DnsResolver, QueryOptions, RecordKind } from './dnsResolver';
+import { errorFields, logger } from './logger';
+import { metrics } from './metrics';
+
+export interface CacheConfig {
+  enabled: boolean;
+  // TTL (seconds) for answers whose upstream reported none, e.g. PTR via the system resolver
+  defaultTtl: number;
+  // Upper bound on any positive TTL, in seconds
+  maxTtl: number;
+  // How long NXDOMAIN/NODATA answers are kept, in seconds
+  negativeTtl: number;
+  maxEntries: number;
+  // Optional JSON file the cache is loaded from and saved to
+  file?: string;
+}
+
+interface CacheEntry {
+  records?: unknown;
+  // Negative answer code (ENOTFOUND/ENODATA); errors are never cached
+  errorCode?: string;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+export function loadCacheConfig(env: NodeJS.ProcessEnv = process.env): CacheConfig {
+  return {
+    enabled: env.DNS_CACHE !== 'off',
+    defaultTtl: parseInteger(env.DNS_CACHE_DEFAULT_TTL, 'DNS_CACHE_DEFAULT_TTL', 300),
+    maxTtl: parseInteger(env.DNS_CACHE_MAX_TTL, 'DNS_CACHE_MAX_TTL', 86400),
+    negativeTtl: parseInteger(env.DNS_CACHE_NEGATIVE_TTL, 'DNS_CACHE_NEGATIVE_TTL', 60),
+    maxEntries: parseInteger(env.DNS_CACHE_MAX_ENTRIES, 'DNS_CACHE_MAX_ENTRIES', 50000),
+    file: env.DNS_CACHE_FILE || undefined
+  };
+}
+
+function loadEntries(file: string): Map<string, CacheEntry> {
+  const entries = new Map<string, CacheEntry>();
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf8');
+  } catch (err) {
+    // No cache file yet
+    return entries;
+  }
+
+  const now = Date.now();
+  try {
+    for (const [key, entry] of Object.entries(JSON.parse(raw) as Record<string, CacheEntry>)) {
+      if (entry.expiresAt > now) entries.set(key, entry);
+    }
+  } catch (err) {
+    // A corrupt cache file is discarded rather than blocking lookups
+  }
+  return entries;
+}
+
+/**
+ * Wrap a resolver with an in-process answer cache that honors the TTLs in
+ * the DNS answers. Negative answers are kept for negativeTtl; resolver
+ * failures (SERVFAIL, timeouts, ...) are never cached.
+ */
+export function createDnsCache(resolver: DnsResolver, config: CacheConfig): DnsResolver {
+  const entries = config.file ? loadEntries(config.file) : new Map<string, CacheEntry>();
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  const scheduleSave = () => {
+    const file = config.file;
+    if (!file || saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      const now = Date.now();
+      const live = Object.fromEntries([...entries].filter(([, entry]) => entry.expiresAt > now));
+      const tmp = `${file}.tmp`;
+      fs.promises
+        .mkdir(path.dirname(file), { recursive: true })
+        .then(() => fs.promises.writeFile(tmp, JSON.stringify(live)))
+        .then(() => fs.promises.rename(tmp, file))
+        .catch(err => {
+          // Persistence is best effort; the in-memory cache still works
+          logger.warn('dns_cache_save_failed', { file, error: errorFields(err) });
+        });
+    }, SAVE_DELAY_MS);
+    saveTimer.unref();
+  };
+
+  const store = (key: string, entry: CacheEntry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    // Map keeps insertion order, so the first key is the oldest write
+    while (entries.size > config.maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+    scheduleSave();
+  };
+
+  const query = async <K extends RecordKind>(
+    kind: K,
+    name: string,
+    options?: QueryOptions
+  ): Promise<DnsAnswer<K>> => {
+    const key = `${kind} ${name.toLowerCase()}`;
+    const now = Date.now();
+    const cached = entries.get(key);
+
+    if (cached && !options?.fresh) {
+      if (cached.expiresAt > now) {
+        metrics.cacheRequests.inc({ result: 'hit' });
+        if (cached.errorCode) {
+          const err = new DnsError(cached.errorCode, name);
+          err.cachedAt = cached.fetchedAt;
+          throw err;
+        }
+        return {
+          records: cached.records as DnsAnswer<K>['records'],
+          ttl: Math.ceil((cached.expiresAt - now) / 1000),
+          cachedAt: cached.fetchedAt
+        };
+      }
+      entries.delete(key);
+    }
+
+    // A forced refresh skips the cache rather than missing it
+    if (!options?.fresh) metrics.cacheRequests.inc({ result: 'miss' });
+    try {
+      const answer = await resolver.query(kind, name, options);
+      const ttl = Math.min(answer.ttl ?? config.defaultTtl, config.maxTtl);
+      if (ttl > 0) {
+        store(key, { records: answer.records, fetchedAt: now, expiresAt: now + ttl * 1000 });
+      }
+      return answer;
+    } catch (err) {
+      if (isNegativeAnswer(err) && config.negativeTtl > 0) {
+        store(key, { errorCode: dnsErrorCode(err), fetchedAt: now, expiresAt: now + config.negativeTtl * 1000 });
+      }
+      throw err;
+    }
+  };
+
+  return {
+    name: resolver.name,
+    query
+  };
+}
@@ -0,0 +1,27 @@
+// utils/dnsErrors.ts
+// Errors carry the same codes as Node's dns module so callers can treat
+// every resolver alike
+export class DnsError extends Error {
+  code: string;
+  // Epoch ms the negative answer was fetched, set only when served from cache
+  cachedAt?: number;
+
+  constructor(code: string, hostname: string) {
+    super(`${code} ${hostname}`);
+    this.name = 'DnsError';
+    this.code = code;
+  }
+}
+
+// NXDOMAIN and NOERROR/NODATA are real answers; anything else means the
+// resolver could not tell us (SERVFAIL, timeout, refused, ...)
+const NEGATIVE_ANSWER_CODES = ['ENOTFOUND', 'ENODATA'];
+
+export function dnsErrorCode(err: unknown): string {
+  const code = (err as NodeJS.ErrnoException)?.code;
+  return typeof code === 'string' ? code : 'EUNKNOWN';
+}
+
+export function isNegativeAnswer(err: unknown): boolean {
+  return NEGATIVE_ANSWER_CODES.includes(dnsErrorCode(err));
+}
@@ -0,0 +1,132 @@
+// utils/dnsFixture.ts
+// Record-and-replay DNS: capture live answers to a fixture file, or serve lookups from one offline
+import fs from 'fs';
+import path from 'path';
+import { DnsError, dnsErrorCode } from './dnsErrors';
+import type { DnsAnswer, DnsResolver, QueryOptions, RecordKind } from './dnsResolver';
+import { dataPath } from './jsonStore';
+import { errorFields, logger } from './logger';
+
+export const DNS_MODES = ['live', 'record', 'replay'] as const;
+
+export type DnsMode = (typeof DNS_MODES)[number];
+
+export interface FixtureConfig {
+  mode: DnsMode;
+  file: string;
+}
+
+// One recorded answer: the records and TTL, or the error the query failed with
+interface FixtureEntry {
+  records?: unknown;
+  ttl?: number;
+  errorCode?: string;
+}
+
+interface Fixture {
+  // Resolver the answers were recorded through
+  resolver: string;
+  recordedAt: string;
+  // Keyed "<kind> <name>", e.g. "PTR 1.2.0.192.in-addr.arpa"
+  answers: Record<string, FixtureEntry>;
+}
+
+// Code of a query the fixture has no answer for; an error, so a gap never reads as "not listed"
+export const MISSING_ANSWER_CODE = 'ENOFIXTURE';
+
+const SAVE_DELAY_MS = 1000;
+
+export function loadFixtureConfig(env: NodeJS.ProcessEnv = process.env): FixtureConfig {
+  const mode = (env.DNS_MODE || 'live') as DnsMode;
+  if (!DNS_MODES.includes(mode)) {
+    throw new Error(`DNS_MODE must be one of ${DNS_MODES.join(', ')}`);
+  }
+  return { mode, file: env.DNS_FIXTURE_FILE || dataPath('dns-fixture.json') };
+}
+
+const fixtureKey = (kind: RecordKind, name: string) => `${kind} ${name.toLowerCase().replace(/\.$/, '')}`;
+
+function readFixture(file: string): Fixture {
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as Fixture;
+  if (typeof fixture?.answers !== 'object' || fixture.answers === null) {
+    throw new Error(`${file} is not a DNS fixture: no answers object`);
+  }
+  return fixture;
+}
+
+/**
+ * Pass every query through to the resolver and write its answer, or the
+ * error it failed with, to the fixture file. An existing fixture is extended,
+ * so several runs can be recorded into one file.
+ */
+export function createRecordingResolver(resolver: DnsResolver, file: string): DnsResolver {
+  const answers: Record<string, FixtureEntry> = fs.existsSync(file) ? readFixture(file).answers : {};
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  // Not unref'd: a CLI run stays alive until its last answers are on disk
+  const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      // Sorted keys keep fixtures diffable; written synchronously so saves cannot interleave
+      const fixture: Fixture = {
+        resolver: resolver.name,
+        recordedAt: new Date().toISOString(),
+        answers: Object.fromEntries(Object.entries(answers).sort(([a], [b]) => a.localeCompare(b)))
+      };
+      try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(fixture, null, 2));
+        fs.renameSync(`${file}.tmp`, file);
+      } catch (err) {
+        logger.error('dns_fixture_save_failed', { file, error: errorFields(err) });
+      }
+    }, SAVE_DELAY_MS);
+  };
+
+  const query = async <K extends RecordKind>(
+    kind: K,
+    name: string,
+    options?: QueryOptions
+  ): Promise<DnsAnswer<K>> => {
+    const key = fixtureKey(kind, name);
+    try {
+      const answer = await resolver.query(kind, name, options);
+      answers[key] = { records: answer.records, ...(answer.ttl !== undefined && { ttl: answer.ttl }) };
+      return answer;
+    } catch (err) {
+      answers[key] = { errorCode: dnsErrorCode(err) };
+      throw err;
+    } finally {
+      scheduleSave();
+    }
+  };
+
+  return { name: resolver.name, query };
+}
+
+/**
+ * Answer every query from a recorded fixture, without touching the network.
+ * Recorded errors are thrown again with their code; queries the fixture has
+ * no answer for fail with ENOFIXTURE.
+ */
+export function createReplayResolver(file: string): DnsResolver {
+  let fixture: Fixture;
+  try {
+    fixture = readFixture(file);
+  } catch (err) {
+    throw new Error(`DNS_MODE=replay needs a fixture recorded with DNS_MODE=record: ${(err as Error).message}`);
+  }
+
+  const query = async <K extends RecordKind>(kind: K, name: string): Promise<DnsAnswer<K>> => {
+    const entry = fixture.answers[fixtureKey(kind, name)];
+    if (!entry) {
+      logger.debug('dns_fixture_miss', { kind, name });
+      throw new DnsError(MISSING_ANSWER_CODE, name);
+    }
+    if (entry.errorCode) throw new DnsError(entry.errorCode, name);
+    return { records: entry.records as DnsAnswer<K>['records'], ttl: entry.ttl };
+  };
+
+  return { name: `replay of ${fixture.resolver}`, query };
+}
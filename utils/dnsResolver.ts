@@ -0,0 +1,272 @@
+// utils/dnsResolver.ts
+import { promises as dns } from 'dns';
+import { randomInt } from 'crypto';
+import tls from 'tls';
+import { decodeResponse, encodeQuery, RecordType, type WireAnswer } from './dnsWire';
+import { normalizeIP, reverseName, parseIP } from './ipValidator';
+import { getProviders } from './dnsblProviders';
+import { createDnsCache, loadCacheConfig } from './dnsCache';
+import { DnsError } from './dnsErrors';
+import { createRecordingResolver, createReplayResolver, loadFixtureConfig } from './dnsFixture';
+import { parseInteger } from './env';
+import { instrumentResolver } from './metrics';
+
+export interface ResolverConfig {
+  // host or host:port entries; empty means the system resolver
+  nameservers: string[];
+  timeoutMs: number;
+  // Retries after the first attempt
+  retries: number;
+  // Optional https:// (DoH) or tls:// (DoT) upstream; overrides nameservers
+  upstream?: string;
+}
+
+export type RecordKind = 'A' | 'AAAA' | 'PTR' | 'MX' | 'TXT';
+
+export interface RecordData {
+  A: string[];
+  AAAA: string[];
+  PTR: string[];
+  MX: { priority: number; exchange: string }[];
+  TXT: string[][];
+}
+
+export interface DnsAnswer<K extends RecordKind> {
+  records: RecordData[K];
+  // Seconds the answer may be cached for; undefined when the upstream did not say
+  ttl?: number;
+  // Epoch ms the answer was fetched, set only when it was served from cache
+  cachedAt?: number;
+}
+
+export interface QueryOptions {
+  // Skip cached answers and go to the upstream
+  fresh?: boolean;
+}
+
+export interface DnsResolver {
+  // Which resolver answers, recorded on each lookup result
+  readonly name: string;
+  query<K extends RecordKind>(kind: K, name: string, options?: QueryOptions): Promise<DnsAnswer<K>>;
+}
+
+const RCODE_ERRORS: Record<number, string> = {
+  1: 'EFORMERR',
+  2: 'ESERVFAIL',
+  3: 'ENOTFOUND',
+  4: 'ENOTIMP',
+  5: 'EREFUSED'
+};
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 1;
+
+export function loadResolverConfig(env: NodeJS.ProcessEnv = process.env): ResolverConfig {
+  return {
+    nameservers: (env.DNS_NAMESERVERS || '')
+      .split(',')
+      .map(server => server.trim())
+      .filter(Boolean),
+    timeoutMs: parseInteger(env.DNS_TIMEOUT_MS, 'DNS_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    retries: parseInteger(env.DNS_RETRIES, 'DNS_RETRIES', DEFAULT_RETRIES),
+    upstream: env.DNS_UPSTREAM || undefined
+  };
+}
+
+// in-addr.arpa / ip6.arpa name for a PTR query. Resolver.reverse() reports
+// every failure as ENOTFOUND; a plain PTR query keeps SERVFAIL, timeouts and
+// refusals distinguishable
+export function ptrName(ip: string): string {
+  const parsed = parseIP(ip);
+  if (!parsed) throw new DnsError('EINVAL', ip);
+  const suffix = parsed.family === 6 ? 'ip6.arpa' : 'in-addr.arpa';
+  return `${reverseName(parsed.address, parsed.family)}.${suffix}`;
+}
+
+function createNodeResolver(config: ResolverConfig): DnsResolver {
+  const resolver = new dns.Resolver({ timeout: config.timeoutMs, tries: config.retries + 1 });
+  if (config.nameservers.length > 0) {
+    resolver.setServers(config.nameservers);
+  }
+
+  const query = async (kind: RecordKind, name: string): Promise<DnsAnswer<RecordKind>> => {
+    switch (kind) {
+      case 'A': {
+        const records = await resolver.resolve4(name, { ttl: true });
+        return { records: records.map(record => record.address), ttl: Math.min(...records.map(record => record.ttl)) };
+      }
+      case 'AAAA': {
+        const records = await resolver.resolve6(name, { ttl: true });
+        return {
+          records: records.map(record => normalizeIP(record.address)),
+          ttl: Math.min(...records.map(record => record.ttl))
+        };
+      }
+      case 'PTR':
+        return { records: await resolver.resolvePtr(name) };
+      case 'MX':
+        return { records: await resolver.resolveMx(name) };
+      case 'TXT':
+        return { records: await resolver.resolveTxt(name) };
+    }
+  };
+
+  return {
+    name: config.nameservers.length > 0 ? config.nameservers.join(', ') : 'system',
+    query: query as DnsResolver['query']
+  };
+}
+
+type Transport = (query: Buffer, timeoutMs: number) => Promise<Buffer>;
+
+function dohTransport(url: string): Transport {
+  return async (query, timeoutMs) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/dns-message', Accept: 'application/dns-message' },
+      body: query,
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    // The upstream answered, just not with a DNS message
+    if (!res.ok) throw new DnsError('EBADRESP', new URL(url).host);
+    return Buffer.from(await res.arrayBuffer());
+  };
+}
+
+function dotTransport(host: string, port: number): Transport {
+  return (query, timeoutMs) =>
+    new Promise((resolve, reject) => {
+      const socket = tls.connect({ host, port, servername: host });
+      const chunks: Buffer[] = [];
+      socket.setTimeout(timeoutMs, () => socket.destroy(new DnsError('ETIMEOUT', host)));
+
+      socket.once('secureConnect', () => {
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(query.length, 0);
+        socket.write(Buffer.concat([length, query]));
+      });
+      socket.on('data', chunk => {
+        chunks.push(chunk);
+        const received = Buffer.concat(chunks);
+        if (received.length >= 2 && received.length >= received.readUInt16BE(0) + 2) {
+          socket.end();
+          resolve(received.subarray(2, received.readUInt16BE(0) + 2));
+        }
+      });
+      socket.once('error', reject);
+      socket.once('close', () => reject(new DnsError('ECONNREFUSED', host)));
+    });
+}
+
+function createWireResolver(config: ResolverConfig, upstream: string): DnsResolver {
+  const url = new URL(upstream);
+  let transport: Transport;
+  if (url.protocol === 'https:') {
+    transport = dohTransport(upstream);
+  } else if (url.protocol === 'tls:') {
+    transport = dotTransport(url.hostname, url.port ? Number(url.port) : 853);
+  } else {
+    throw new Error(`Unsupported DNS_UPSTREAM protocol: ${url.protocol}`);
+  }
+
+  const exchange = async (hostname: string, type: number): Promise<WireAnswer[]> => {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= config.retries; attempt++) {
+      const id = randomInt(0x10000);
+      let query: Buffer;
+      try {
+        query = encodeQuery(id, hostname, type);
+      } catch (err) {
+        // A name no server can be asked about, e.g. a label over 63 bytes
+        throw new DnsError('EBADNAME', hostname);
+      }
+
+      let message: Buffer;
+      try {
+        message = await transport(query, config.timeoutMs);
+      } catch (err) {
+        const name = (err as Error)?.name;
+        lastError =
+          err instanceof DnsError
+            ? err
+            : new DnsError(name === 'TimeoutError' || name === 'AbortError' ? 'ETIMEOUT' : 'ECONNREFUSED', hostname);
+        continue;
+      }
+
+      let response;
+      try {
+        response = decodeResponse(message);
+      } catch (err) {
+        lastError = new DnsError('EBADRESP', hostname);
+        continue;
+      }
+
+      if (response.id !== id) {
+        lastError = new DnsError('EBADRESP', hostname);
+        continue;
+      }
+      if (response.rcode === 2) {
+        // SERVFAIL is often transient; try again
+        lastError = new DnsError('ESERVFAIL', hostname);
+        continue;
+      }
+      if (response.rcode !== 0) {
+        throw new DnsError(RCODE_ERRORS[response.rcode] || 'EBADRESP', hostname);
+      }
+
+      const answers = response.answers.filter(answer => answer.type === type);
+      if (answers.length === 0) throw new DnsError('ENODATA', hostname);
+      return answers;
+    }
+
+    throw lastError;
+  };
+
+  const query = async (kind: RecordKind, name: string): Promise<DnsAnswer<RecordKind>> => {
+    const answers = await exchange(name, RecordType[kind]);
+    const ttl = Math.min(...answers.map(answer => answer.ttl));
+    switch (kind) {
+      case 'AAAA':
+        return { records: answers.map(answer => normalizeIP(answer.data as string)), ttl };
+      case 'MX':
+        return { records: answers.map(answer => answer.data as RecordData['MX'][number]), ttl };
+      case 'TXT':
+        return { records: answers.map(answer => answer.data as string[]), ttl };
+      default:
+        return { records: answers.map(answer => answer.data as string), ttl };
+    }
+  };
+
+  return {
+    name: upstream,
+    query: query as DnsResolver['query']
+  };
+}
+
+export function createResolver(config: ResolverConfig): DnsResolver {
+  return config.upstream ? createWireResolver(config, config.upstream) : createNodeResolver(config);
+}
+
+// Next.js bundles each route separately, so process-wide singletons live on globalThis
+const globalResolver = globalThis as typeof globalThis & { defaultResolver?: DnsResolver };
+
+// Resolver built from the environment, shared by every lookup in the process.
+// Answers are cached across requests unless DNS_CACHE=off. DNS_MODE=replay
+// answers from a fixture instead of the network, and DNS_MODE=record writes
+// every answer the lookups see to one.
+export function getResolver(): DnsResolver {
+  if (!globalResolver.defaultResolver) {
+    const fixture = loadFixtureConfig();
+    const upstream =
+      fixture.mode === 'replay' ? createReplayResolver(fixture.file) : createResolver(loadResolverConfig());
+    // Metrics sit under the cache, so they time only the queries sent upstream
+    const resolver = instrumentResolver(upstream, () => getProviders().map(provider => provider.zone));
+    const cacheConfig = loadCacheConfig();
+    // Replayed answers are already in memory; caching them would only mark results as cached
+    const cached = cacheConfig.enabled && fixture.mode !== 'replay' ? createDnsCache(resolver, cacheConfig) : resolver;
+    // The recorder sits above the cache so answers served from it are captured too
+    globalResolver.defaultResolver = fixture.mode === 'record' ? createRecordingResolver(cached, fixture.file) : cached;
+  }
+  return globalResolver.defaultResolver;
+}
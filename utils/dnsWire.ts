@@ -0,0 +1,134 @@
+// utils/dnsWire.ts
+// Minimal DNS wire format (RFC 1035) codec for the DoH/DoT upstreams
+
+export const RecordType = {
+  A: 1,
+  PTR: 12,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28
+} as const;
+
+export interface WireAnswer {
+  type: number;
+  ttl: number;
+  data: string | string[] | { priority: number; exchange: string };
+}
+
+export interface WireResponse {
+  id: number;
+  rcode: number;
+  answers: WireAnswer[];
+}
+
+export function encodeQuery(id: number, name: string, type: number): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(0x0100, 2); // Standard query, recursion desired
+  header.writeUInt16BE(1, 4); // QDCOUNT
+
+  const labels = name.replace(/\.$/, '').split('.');
+  const qname = Buffer.concat([
+    ...labels.map(label => {
+      const bytes = Buffer.from(label, 'ascii');
+      if (bytes.length === 0 || bytes.length > 63) throw new Error(`Invalid DNS name: ${name}`);
+      return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    }),
+    Buffer.from([0])
+  ]);
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(type, 0);
+  question.writeUInt16BE(1, 2); // IN
+
+  return Buffer.concat([header, qname, question]);
+}
+
+// Read a possibly compressed name; returns the name and the offset after it
+function readName(message: Buffer, offset: number): [string, number] {
+  const labels: string[] = [];
+  let position = offset;
+  let end = -1;
+  let jumps = 0;
+
+  for (;;) {
+    if (position >= message.length) throw new Error('Truncated DNS name');
+    const length = message[position];
+    if ((length & 0xc0) === 0xc0) {
+      if (++jumps > 32) throw new Error('DNS name compression loop');
+      if (end < 0) end = position + 2;
+      position = ((length & 0x3f) << 8) | message[position + 1];
+      continue;
+    }
+    if (length === 0) {
+      if (end < 0) end = position + 1;
+      break;
+    }
+    labels.push(message.toString('ascii', position + 1, position + 1 + length));
+    position += length + 1;
+  }
+
+  return [labels.join('.'), end];
+}
+
+function formatAAAA(rdata: Buffer): string {
+  const hextets: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    hextets.push(rdata.readUInt16BE(i).toString(16));
+  }
+  return hextets.join(':');
+}
+
+function readTxt(rdata: Buffer): string[] {
+  const chunks: string[] = [];
+  let position = 0;
+  while (position < rdata.length) {
+    const length = rdata[position];
+    chunks.push(rdata.toString('utf8', position + 1, position + 1 + length));
+    position += length + 1;
+  }
+  return chunks;
+}
+
+export function decodeResponse(message: Buffer): WireResponse {
+  if (message.length < 12) throw new Error('Truncated DNS response');
+
+  const id = message.readUInt16BE(0);
+  const rcode = message.readUInt16BE(2) & 0x0f;
+  const qdcount = message.readUInt16BE(4);
+  const ancount = message.readUInt16BE(6);
+
+  let offset = 12;
+  for (let i = 0; i < qdcount; i++) {
+    offset = readName(message, offset)[1] + 4;
+  }
+
+  const answers: WireAnswer[] = [];
+  for (let i = 0; i < ancount; i++) {
+    offset = readName(message, offset)[1];
+    const type = message.readUInt16BE(offset);
+    const ttl = message.readUInt32BE(offset + 4);
+    const rdlength = message.readUInt16BE(offset + 8);
+    const rdataOffset = offset + 10;
+    const rdata = message.subarray(rdataOffset, rdataOffset + rdlength);
+    offset = rdataOffset + rdlength;
+
+    if (type === RecordType.A && rdlength === 4) {
+      answers.push({ type, ttl, data: [...rdata].join('.') });
+    } else if (type === RecordType.AAAA && rdlength === 16) {
+      answers.push({ type, ttl, data: formatAAAA(rdata) });
+    } else if (type === RecordType.PTR) {
+      answers.push({ type, ttl, data: readName(message, rdataOffset)[0] });
+    } else if (type === RecordType.MX && rdlength > 2) {
+      answers.push({
+        type,
+        ttl,
+        data: { priority: rdata.readUInt16BE(0), exchange: readName(message, rdataOffset + 2)[0] }
+      });
+    } else if (type === RecordType.TXT) {
+      answers.push({ type, ttl, data: readTxt(rdata) });
+    }
+  }
+
+  return { id, rcode, answers };
+}
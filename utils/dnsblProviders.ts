@@ -0,0 +1,175 @@
+// utils/dnsblProviders.ts
+import type { ProviderInfo } from './types';
+
+export interface DnsblProvider {
+  id: string;
+  name: string;
+  zone: string;
+  // Last octet of the 127.0.0.x answer -> list name
+  codes: Record<string, string>;
+  // Whether the zone answers nibble-reversed IPv6 queries
+  ipv6: boolean;
+  // Disabled providers are never queried, even when requested
+  enabled: boolean;
+  // Pre-selected in the UI and used when a request names no providers
+  defaultSelected: boolean;
+}
+
+const builtinProviders: DnsblProvider[] = [
+  {
+    id: 'spamrats',
+    name: 'SpamRATS',
+    zone: 'all.spamrats.com',
+    codes: {
+      '36': 'RATS-Dyna',
+      '37': 'RATS-NoPtr',
+      '38': 'RATS-Spam',
+      '43': 'RATS-Auth'
+    },
+    ipv6: false,
+    enabled: true,
+    defaultSelected: true
+  },
+  {
+    id: 'spamhaus-zen',
+    name: 'Spamhaus ZEN',
+    zone: 'zen.spamhaus.org',
+    codes: {
+      '2': 'Spamhaus-SBL',
+      '3': 'Spamhaus-CSS',
+      '4': 'Spamhaus-XBL',
+      '9': 'Spamhaus-DROP',
+      '10': 'Spamhaus-PBL-ISP',
+      '11': 'Spamhaus-PBL'
+    },
+    ipv6: true,
+    enabled: true,
+    defaultSelected: false
+  },
+  {
+    id: 'barracuda',
+    name: 'Barracuda',
+    zone: 'b.barracudacentral.org',
+    codes: { '2': 'Barracuda-BRBL' },
+    ipv6: false,
+    enabled: true,
+    defaultSelected: false
+  },
+  {
+    id: 'spamcop',
+    name: 'SpamCop',
+    zone: 'bl.spamcop.net',
+    codes: { '2': 'SpamCop-BL' },
+    ipv6: false,
+    enabled: true,
+    defaultSelected: false
+  },
+  {
+    id: 'uceprotect',
+    name: 'UCEPROTECT',
+    zone: 'dnsbl-1.uceprotect.net',
+    codes: { '2': 'UCEPROTECT-L1' },
+    ipv6: false,
+    enabled: true,
+    defaultSelected: false
+  }
+];
+
+/**
+ * Extra providers (e.g. internal blocklists) come from DNSBL_PROVIDERS as a
+ * JSON array of DnsblProvider objects. An entry whose id matches a built-in
+ * provider replaces it. DNSBL_DISABLED is a comma-separated list of ids to
+ * switch off.
+ */
+function loadCustomProviders(): DnsblProvider[] {
+  const raw = process.env.DNSBL_PROVIDERS;
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error('DNSBL_PROVIDERS must be valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('DNSBL_PROVIDERS must be a JSON array');
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isOptional = (value: unknown, type: string) => value === undefined || typeof value === type;
+
+  return parsed.map((item: unknown) => {
+    const entry = item as Partial<DnsblProvider>;
+    if (
+      !isObject(item) ||
+      typeof entry.id !== 'string' || !entry.id ||
+      typeof entry.zone !== 'string' || !entry.zone ||
+      !isObject(entry.codes) ||
+      !Object.values(entry.codes).every(list => typeof list === 'string' && list)
+    ) {
+      throw new Error('Each DNSBL_PROVIDERS entry needs an id, zone and codes');
+    }
+    if (
+      !isOptional(entry.name, 'string') ||
+      !isOptional(entry.ipv6, 'boolean') ||
+      !isOptional(entry.enabled, 'boolean') ||
+      !isOptional(entry.defaultSelected, 'boolean')
+    ) {
+      throw new Error(`DNSBL_PROVIDERS entry ${entry.id}: name must be a string; ipv6, enabled and defaultSelected booleans`);
+    }
+    return {
+      id: entry.id,
+      name: entry.name || entry.id,
+      zone: entry.zone,
+      codes: entry.codes,
+      ipv6: entry.ipv6 ?? false,
+      enabled: entry.enabled ?? true,
+      defaultSelected: entry.defaultSelected ?? false
+    };
+  });
+}
+
+export function getProviders(): DnsblProvider[] {
+  const disabled = (process.env.DNSBL_DISABLED || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  const byId = new Map<string, DnsblProvider>();
+  for (const provider of [...builtinProviders, ...loadCustomProviders()]) {
+    byId.set(provider.id, provider);
+  }
+
+  return [...byId.values()].map(provider =>
+    disabled.includes(provider.id) ? { ...provider, enabled: false } : provider
+  );
+}
+
+/**
+ * Resolve requested provider ids against the registry. With no ids the
+ * default selection is used. Unknown or disabled ids are returned separately
+ * so the caller can reject the request.
+ */
+export function selectProviders(ids?: string[]): { providers: DnsblProvider[]; unknown: string[] } {
+  const enabled = getProviders().filter(provider => provider.enabled);
+
+  if (!ids || ids.length === 0) {
+    return { providers: enabled.filter(provider => provider.defaultSelected), unknown: [] };
+  }
+
+  const providers = enabled.filter(provider => ids.includes(provider.id));
+  const unknown = ids.filter(id => !providers.some(provider => provider.id === id));
+  return { providers, unknown };
+}
+
+export function toProviderInfo(provider: DnsblProvider): ProviderInfo {
+  return {
+    id: provider.id,
+    name: provider.name,
+    zone: provider.zone,
+    lists: [...new Set(Object.values(provider.codes))],
+    ipv6: provider.ipv6,
+    defaultSelected: provider.defaultSelected
+  };
+}
@@ -0,0 +1,93 @@
+// utils/domainLookup.ts
+// Finds the sending and receiving addresses of a domain: its MX hosts, its own
+// A/AAAA records and everything its SPF policy authorizes
+import { dnsErrorCode, isNegativeAnswer } from './dnsErrors';
+import { getResolver, type DnsResolver, type RecordData, type RecordKind } from './dnsResolver';
+import { DEFAULT_MAX_ADDRESSES, expandTargets } from './ipRanges';
+import { resolveSpf, type Resolve } from './spf';
+import type { DomainLookupResponse } from './types';
+
+export type DomainDiscovery = Omit<DomainLookupResponse, 'results' | 'score'>;
+
+export interface DiscoveryOptions {
+  resolver?: DnsResolver;
+  fresh?: boolean;
+  // Cap on addresses taken from SPF networks and hosts together
+  maxAddresses?: number;
+}
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/i;
+
+export function isValidDomain(domain: string): boolean {
+  return HOSTNAME_PATTERN.test(domain);
+}
+
+export async function discoverDomain(input: string, options: DiscoveryOptions = {}): Promise<DomainDiscovery> {
+  const domain = input.trim().toLowerCase().replace(/\.$/, '');
+  if (!isValidDomain(domain)) throw new Error(`Invalid domain: ${input}`);
+
+  const dns = options.resolver ?? getResolver();
+  const resolve: Resolve = async <K extends RecordKind>(kind: K, name: string): Promise<RecordData[K]> =>
+    (await dns.query(kind, name, { fresh: options.fresh })).records;
+
+  const errors: string[] = [];
+  const origins = new Map<string, string[]>();
+  let budget = options.maxAddresses ?? DEFAULT_MAX_ADDRESSES;
+
+  const addNetwork = (network: string, origin: string) => {
+    let ips: string[];
+    try {
+      const expanded = expandTargets([network], budget);
+      if (expanded.invalid.length > 0) {
+        errors.push(`${origin}: not an address or network`);
+        return;
+      }
+      ips = expanded.ips;
+    } catch {
+      errors.push(`${origin}: skipped, ${network} exceeds the address cap`);
+      return;
+    }
+    for (const ip of ips) {
+      const existing = origins.get(ip);
+      if (existing) {
+        if (!existing.includes(origin)) existing.push(origin);
+      } else {
+        origins.set(ip, [origin]);
+        budget--;
+      }
+    }
+  };
+
+  const addHost = async (host: string, label: string) => {
+    for (const kind of ['A', 'AAAA'] as const) {
+      try {
+        for (const ip of await resolve(kind, host)) addNetwork(ip, label);
+      } catch (err) {
+        if (!isNegativeAnswer(err)) errors.push(`${kind} ${host}: ${dnsErrorCode(err)}`);
+      }
+    }
+  };
+
+  let mx: RecordData['MX'] = [];
+  try {
+    mx = [...(await resolve('MX', domain))].sort((a, b) => a.priority - b.priority);
+  } catch (err) {
+    if (!isNegativeAnswer(err)) errors.push(`MX ${domain}: ${dnsErrorCode(err)}`);
+  }
+
+  for (const { exchange, priority } of mx) {
+    await addHost(exchange, `MX ${exchange} (priority ${priority})`);
+  }
+  await addHost(domain, `A/AAAA ${domain}`);
+
+  const { report, networks } = await resolveSpf(domain, resolve);
+  for (const { network, origin } of networks) addNetwork(network, origin);
+
+  return {
+    domain,
+    mx,
+    spf: report,
+    sources: [...origins].map(([ip, ipOrigins]) => ({ ip, origins: ipOrigins })),
+    errors
+  };
+}
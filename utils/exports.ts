@@ -0,0 +1,297 @@
+// utils/exports.ts
+// Result exports in every download format, shared by the UI, the CLI and the export routes
+import { allListStatuses, COMPLIANCE_CHECKS, COMPLIANCE_LABELS, formatOutcome, hasLookupErrors, isOnAnyList } from './lookupResult';
+import { scoreRun, SEVERITY_BANDS } from './scoring';
+import type { ComplianceCheck, IPLookupResponse, RunScore, SeverityBand } from './types';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson', 'markdown', 'html'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  markdown: 'Markdown summary',
+  html: 'HTML summary'
+};
+
+export const EXPORT_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' }
+};
+
+// Header prefix of the per-list CSV columns, e.g. "List: RATS-Spam"
+export const LIST_COLUMN_PREFIX = 'List: ';
+
+export interface ExportMetadata {
+  generatedAt: string;
+  // Resolvers that answered, usually one
+  resolvers: string[];
+  providers: { id: string; name: string; zone: string }[];
+  // Every list seen in the results, in column order
+  lists: string[];
+  count: number;
+  score: RunScore;
+}
+
+// One flat record per IP, as written to CSV and NDJSON
+export interface ExportRow {
+  ip: string;
+  family: 4 | 6;
+  score: number;
+  severity: SeverityBand;
+  hostnames: string[];
+  reverseHostname: string;
+  forwardConfirmed: string;
+  namingConvention: string;
+  namingReasons: string[];
+  // List name to outcome, e.g. { "RATS-Spam": "On the list" }
+  lists: Record<string, string>;
+  listed: boolean;
+  resolver: string;
+}
+
+export function exportMetadata(results: IPLookupResponse[], generatedAt = new Date().toISOString()): ExportMetadata {
+  const providers = new Map<string, ExportMetadata['providers'][number]>();
+  for (const result of results) {
+    for (const provider of result.providers) {
+      if (!providers.has(provider.provider)) {
+        providers.set(provider.provider, { id: provider.provider, name: provider.name, zone: provider.zone });
+      }
+    }
+  }
+  return {
+    generatedAt,
+    resolvers: [...new Set(results.map(result => result.resolver))],
+    providers: [...providers.values()],
+    lists: [...new Set(results.flatMap(result => allListStatuses(result).map(status => status.list)))],
+    count: results.length,
+    score: scoreRun(results.map(result => result.score))
+  };
+}
+
+export function exportRow(result: IPLookupResponse): ExportRow {
+  const { standardsCompliance } = result;
+  const outcome = (check: ComplianceCheck) => formatOutcome(standardsCompliance[check], standardsCompliance.errorCodes?.[check]);
+  return {
+    ip: result.ip,
+    family: result.family,
+    score: result.score.value,
+    severity: result.score.band,
+    hostnames: standardsCompliance.hostnames,
+    reverseHostname: outcome('reverseHostname'),
+    forwardConfirmed: outcome('forwardConfirmed'),
+    namingConvention: outcome('namingConvention'),
+    namingReasons: standardsCompliance.namingReasons ?? [],
+    lists: Object.fromEntries(
+      allListStatuses(result).map(status => [status.list, formatOutcome(status.status, status.errorCode)])
+    ),
+    listed: isOnAnyList(result),
+    resolver: result.resolver
+  };
+}
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+function toCSV(results: IPLookupResponse[], metadata: ExportMetadata): string {
+  const headers = [
+    'IP',
+    'Family',
+    'PTR',
+    'Score',
+    'Severity',
+    ...COMPLIANCE_CHECKS.map(check => COMPLIANCE_LABELS[check]),
+    'Naming Reasons',
+    ...metadata.lists.map(list => `${LIST_COLUMN_PREFIX}${list}`),
+    'Resolver'
+  ];
+
+  const rows = results.map(result => {
+    const row = exportRow(result);
+    return [
+      row.ip,
+      `IPv${row.family}`,
+      row.hostnames.join('|'),
+      String(row.score),
+      row.severity,
+      ...COMPLIANCE_CHECKS.map(check => row[check]),
+      row.namingReasons.join('|'),
+      // Lists a provider was not queried for stay empty
+      ...metadata.lists.map(list => row.lists[list] ?? ''),
+      row.resolver
+    ].map(csvCell).join(',');
+  });
+
+  return [headers.map(csvCell).join(','), ...rows].join('\n');
+}
+
+// Counts behind the Markdown and HTML summaries
+function summarize(results: IPLookupResponse[], metadata: ExportMetadata) {
+  const counts: [string, number][] = [
+    ...SEVERITY_BANDS.map((band): [string, number] => [`Severity ${band}`, metadata.score.bands[band]]),
+    ['Listed on any list', results.filter(isOnAnyList).length],
+    ...metadata.lists.map((list): [string, number] => [
+      `Listed on ${list}`,
+      results.filter(result => allListStatuses(result).some(status => status.list === list && status.status === 'On the list')).length
+    ]),
+    ...COMPLIANCE_CHECKS.map((check): [string, number] => [
+      `Failed ${COMPLIANCE_LABELS[check]}`,
+      results.filter(result => result.standardsCompliance[check] === 'Failed!').length
+    ]),
+    ['DNS errors', results.filter(hasLookupErrors).length]
+  ];
+
+  // IPs that are listed or fail a check, with what is wrong, worst first
+  const findings = results
+    .map(result => ({
+      ip: result.ip,
+      score: `${result.score.value} (${result.score.band})`,
+      value: result.score.value,
+      ptr: result.standardsCompliance.hostnames.join(', '),
+      listedOn: allListStatuses(result)
+        .filter(status => status.status === 'On the list')
+        .map(status => status.list),
+      failed: COMPLIANCE_CHECKS.filter(check => result.standardsCompliance[check] === 'Failed!').map(
+        check => COMPLIANCE_LABELS[check]
+      )
+    }))
+    .filter(finding => finding.listedOn.length > 0 || finding.failed.length > 0)
+    .sort((a, b) => b.value - a.value);
+
+  return { counts, findings };
+}
+
+type Finding = ReturnType<typeof summarize>['findings'][number];
+
+const findingCells = (finding: Finding) => [
+  finding.ip,
+  finding.score,
+  finding.ptr || '-',
+  finding.listedOn.join(', ') || '-',
+  finding.failed.join(', ') || '-'
+];
+
+const metadataLines = (metadata: ExportMetadata): [string, string][] => [
+  ['Generated', metadata.generatedAt],
+  ['Resolver', metadata.resolvers.join(', ') || '-'],
+  ['Providers', metadata.providers.map(provider => `${provider.name} (${provider.zone})`).join(', ') || '-'],
+  ['IPs checked', String(metadata.count)],
+  ['Run score', `average ${metadata.score.average}, worst ${metadata.score.max} (${metadata.score.band})`]
+];
+
+function toMarkdown(results: IPLookupResponse[], metadata: ExportMetadata): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|');
+  const { counts, findings } = summarize(results, metadata);
+  const lines = [
+    '# IP lookup report',
+    '',
+    ...metadataLines(metadata).map(([label, value]) => `- ${label}: ${escape(value)}`),
+    '',
+    '## Summary',
+    '',
+    '| | IPs |',
+    '|---|---|',
+    ...counts.map(([label, count]) => `| ${escape(label)} | ${count} |`),
+    '',
+    '## Findings',
+    ''
+  ];
+  if (findings.length === 0) {
+    lines.push('No IP is listed or fails a compliance check.');
+  } else {
+    lines.push('| IP | Score | PTR | Listed on | Failed checks |', '|---|---|---|---|---|');
+    for (const finding of findings) {
+      lines.push(`| ${findingCells(finding).map(escape).join(' | ')} |`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function toHTML(results: IPLookupResponse[], metadata: ExportMetadata): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const cells = (tag: 'th' | 'td', values: string[]) => values.map(value => `<${tag}>${escape(value)}</${tag}>`).join('');
+  const { counts, findings } = summarize(results, metadata);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>IP lookup report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.75rem; text-align: left; }
+th { background: #f3f4f6; }
+</style>
+</head>
+<body>
+<h1>IP lookup report</h1>
+<ul>
+${metadataLines(metadata).map(([label, value]) => `<li>${escape(label)}: ${escape(value)}</li>`).join('\n')}
+</ul>
+<h2>Summary</h2>
+<table>
+<tr><th></th><th>IPs</th></tr>
+${counts.map(([label, count]) => `<tr>${cells('td', [label, String(count)])}</tr>`).join('\n')}
+</table>
+<h2>Findings</h2>
+${
+  findings.length === 0
+    ? '<p>No IP is listed or fails a compliance check.</p>'
+    : `<table>
+<tr>${cells('th', ['IP', 'Score', 'PTR', 'Listed on', 'Failed checks'])}</tr>
+${findings.map(finding => `<tr>${cells('td', findingCells(finding))}</tr>`).join('\n')}
+</table>`
+}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render results in one of the export formats. JSON carries the metadata and
+ * the full results; NDJSON writes one flat record per IP with the generation
+ * time on each line, for log pipelines that ingest records one at a time.
+ */
+export function exportResults(
+  results: IPLookupResponse[],
+  format: ExportFormat,
+  metadata: ExportMetadata = exportMetadata(results)
+): string {
+  switch (format) {
+    case 'csv':
+      return toCSV(results, metadata);
+    case 'json':
+      return JSON.stringify({ metadata, results }, null, 2);
+    case 'ndjson':
+      return results.map(result => JSON.stringify({ generatedAt: metadata.generatedAt, ...exportRow(result) })).join('\n');
+    case 'markdown':
+      return toMarkdown(results, metadata);
+    case 'html':
+      return toHTML(results, metadata);
+  }
+}
+
+export function exportFilename(format: ExportFormat, generatedAt: string): string {
+  return `ip_lookup_results_${generatedAt.slice(0, 10)}.${EXPORT_TYPES[format].extension}`;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// A download of the results, for the export routes
+export function exportResponse(results: IPLookupResponse[], format: ExportFormat, generatedAt?: string): Response {
+  const metadata = exportMetadata(results, generatedAt);
+  return new Response(exportResults(results, format, metadata), {
+    headers: {
+      'Content-Type': EXPORT_TYPES[format].contentType,
+      'Content-Disposition': `attachment; filename="${exportFilename(format, metadata.generatedAt)}"`
+    }
+  });
+}
@@ -0,0 +1,121 @@
+// utils/hostnameAnalyzer.ts
+// Naming-convention analysis of PTR hostnames: generic, dynamic-looking names
+// are what put an IP on lists such as RATS-Dyna
+import { ipv6Nibbles, type IPFamily } from './ipValidator';
+
+// Tokens ISPs use for pools of end-user or dynamically assigned addresses
+const GENERIC_TOKENS = [
+  'dyn',
+  'dynamic',
+  'dhcp',
+  'pool',
+  'dsl',
+  'adsl',
+  'vdsl',
+  'xdsl',
+  'cable',
+  'ppp',
+  'pppoe',
+  'client',
+  'dialup',
+  'dial',
+  'cpe',
+  'broadband',
+  'residential',
+  'cust',
+  'customer',
+  'unassigned'
+];
+
+// Leading tokens that mark a host as a mail server (mail1, mx-02, smtp-out, ...)
+const MAIL_TOKENS = ['mail', 'mx', 'smtp', 'mta', 'relay', 'out', 'outbound', 'mailout', 'mailer', 'email', 'exchange', 'postfix', 'bounce'];
+
+// Second-level labels under which registrations happen (example.co.uk)
+const PUBLIC_SECOND_LEVELS = ['co', 'com', 'net', 'org', 'ac', 'gov', 'edu', 'ne', 'or'];
+
+// Labels left of the registered domain; those are the ones the operator chose for the host
+function hostLabels(hostname: string): string[] {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  const tld = labels[labels.length - 1] ?? '';
+  const sld = labels[labels.length - 2] ?? '';
+  const domainLabels = tld.length === 2 && PUBLIC_SECOND_LEVELS.includes(sld) ? 3 : 2;
+  return labels.slice(0, Math.max(0, labels.length - domainLabels));
+}
+
+// Alphabetic runs of the host labels: "dyn-1-2-3-4.pool" -> dyn, pool
+function letterTokens(labels: string[]): string[] {
+  return labels.flatMap(label => label.split(/[^a-z]+/)).filter(Boolean);
+}
+
+function embedsIPv4(hostname: string, ip: string): string | null {
+  const octets = ip.split('.');
+  const lower = hostname.toLowerCase();
+
+  // Decimal octets as separate numbers, in any order (1-2-0-192, 192.0.2.1, ...)
+  const numbers = lower.split(/[^0-9]+/).filter(Boolean);
+  const remaining = [...numbers];
+  let matched = 0;
+  for (const octet of octets) {
+    const index = remaining.findIndex(number => number.length <= 3 && Number(number) === Number(octet));
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      matched++;
+    }
+  }
+  // Three octets are enough when the host part is among them; some ISPs drop the first
+  if (matched === 4 || (matched === 3 && numbers.some(number => number.length <= 3 && Number(number) === Number(octets[3])))) {
+    return 'embeds the IP address octets';
+  }
+
+  // Zero-padded run of all four octets (192000002001), forwards or reversed
+  const padded = octets.map(octet => octet.padStart(3, '0'));
+  if (numbers.includes(padded.join('')) || numbers.includes([...padded].reverse().join(''))) {
+    return 'embeds the IP address octets';
+  }
+
+  // Hex form (c0000201), forwards or reversed
+  const hex = octets.map(octet => Number(octet).toString(16).padStart(2, '0'));
+  if (lower.includes(hex.join('')) || lower.includes([...hex].reverse().join(''))) {
+    return 'embeds the IP address in hex';
+  }
+  return null;
+}
+
+function embedsIPv6(hostname: string, ip: string): string | null {
+  const lower = hostname.toLowerCase();
+  const nibbles = ipv6Nibbles(ip);
+  const compact = lower.replace(/[^0-9a-f]/g, '');
+  // The interface identifier (low 64 bits) is what a per-host name would carry
+  const interfaceId = nibbles.slice(16).join('');
+  if (compact.includes(interfaceId) || compact.includes([...nibbles.slice(16)].reverse().join(''))) {
+    return 'embeds the IP address';
+  }
+  if (lower.includes(ip.replace(/:/g, '-'))) {
+    return 'embeds the IP address';
+  }
+  return null;
+}
+
+/**
+ * Reasons a PTR hostname looks generic rather than like a dedicated mail
+ * server; an empty list means the name passes.
+ */
+export function analyzeHostname(hostname: string, ip: string, family: IPFamily): string[] {
+  const reasons: string[] = [];
+  const labels = hostLabels(hostname);
+  const tokens = letterTokens(labels);
+
+  const embedded = family === 6 ? embedsIPv6(hostname, ip) : embedsIPv4(hostname, ip);
+  if (embedded) reasons.push(embedded);
+
+  const generic = [...new Set(tokens.filter(token => GENERIC_TOKENS.includes(token)))];
+  if (generic.length > 0) {
+    reasons.push(`contains generic tokens (${generic.join(', ')})`);
+  }
+
+  if (!tokens.some(token => MAIL_TOKENS.some(mail => token.startsWith(mail)))) {
+    reasons.push('has no mail-like label (mail, mx, smtp, ...)');
+  }
+
+  return reasons;
+}
@@ -0,0 +1,142 @@
+// utils/ipRanges.ts
+import { ipv6Nibbles, parseIP, type IPFamily, type ParsedIP } from './ipValidator';
+
+// Upper bound on addresses a single run may expand to, unless the caller picks another
+export const DEFAULT_MAX_ADDRESSES = 4096;
+
+export interface IPBlock {
+  // The CIDR block or range as entered
+  source: string;
+  ips: string[];
+}
+
+export interface ExpandedTargets {
+  // Every address to check, deduplicated, in input order
+  ips: string[];
+  // CIDR blocks and ranges, for per-block summaries
+  blocks: IPBlock[];
+  // Entries that are neither an IP, a CIDR block nor a range
+  invalid: string[];
+}
+
+const BITS: Record<IPFamily, number> = { 4: 32, 6: 128 };
+
+function toBigInt({ address, family }: ParsedIP): bigint {
+  const hex =
+    family === 4
+      ? address
+          .split('.')
+          .map(octet => Number(octet).toString(16).padStart(2, '0'))
+          .join('')
+      : ipv6Nibbles(address).join('');
+  return BigInt(`0x${hex}`);
+}
+
+function fromBigInt(value: bigint, family: IPFamily): string {
+  const hex = value.toString(16).padStart(BITS[family] / 4, '0');
+  if (family === 4) {
+    return (hex.match(/../g) as string[]).map(pair => parseInt(pair, 16)).join('.');
+  }
+  return (parseIP((hex.match(/.{4}/g) as string[]).join(':')) as ParsedIP).address;
+}
+
+// Every address of a span; throws before expanding one larger than maxAddresses
+function expandSpan(start: bigint, end: bigint, family: IPFamily, maxAddresses: number, source: string): string[] {
+  const size = end - start + BigInt(1);
+  if (size > BigInt(maxAddresses)) {
+    throw new Error(`${source} expands to ${size} addresses, more than this run allows`);
+  }
+  const ips: string[] = [];
+  for (let value = start; value <= end; value += BigInt(1)) {
+    ips.push(fromBigInt(value, family));
+  }
+  return ips;
+}
+
+interface Span {
+  start: bigint;
+  end: bigint;
+  family: IPFamily;
+}
+
+// Bounds of one CIDR block (203.0.113.0/26) or range (203.0.113.10-203.0.113.40
+// or 203.0.113.10-40); null when the entry is neither
+function parseSpan(entry: string): Span | null {
+  const cidr = entry.match(/^([^/]+)\/(\d{1,3})$/);
+  if (cidr) {
+    const base = parseIP(cidr[1]);
+    let prefix = Number(cidr[2]);
+    if (!base) return null;
+    // An IPv4-mapped block (::ffff:192.0.2.0/120) is an IPv4 block behind 96 mapping bits
+    if (base.family === 4 && cidr[1].includes(':')) {
+      if (prefix < 96) return null;
+      prefix -= 96;
+    }
+    if (prefix > BITS[base.family]) return null;
+    const hostBits = BigInt(BITS[base.family] - prefix);
+    const network = (toBigInt(base) >> hostBits) << hostBits;
+    const last = network + (BigInt(1) << hostBits) - BigInt(1);
+    return { start: network, end: last, family: base.family };
+  }
+
+  const range = entry.match(/^([^-\s]+)\s*-\s*([^-\s]+)$/);
+  if (range) {
+    const start = parseIP(range[1]);
+    if (!start) return null;
+    let endText = range[2];
+    // Short form: only the last octet of the end address
+    if (start.family === 4 && /^\d{1,3}$/.test(endText)) {
+      endText = start.address.split('.').slice(0, 3).concat(endText).join('.');
+    }
+    const end = parseIP(endText);
+    if (!end || end.family !== start.family) return null;
+    const [from, to] = [toBigInt(start), toBigInt(end)];
+    if (from > to) return null;
+    return { start: from, end: to, family: start.family };
+  }
+
+  return null;
+}
+
+// True for a single IP, CIDR block or range, without expanding it
+export function isTarget(entry: string): boolean {
+  const trimmed = entry.trim();
+  return parseIP(trimmed) !== null || parseSpan(trimmed) !== null;
+}
+
+/**
+ * Expand single IPs, CIDR blocks and ranges into the addresses to check.
+ * Throws when the distinct addresses exceed maxAddresses; a block larger
+ * than that on its own is rejected before it is expanded.
+ */
+export function expandTargets(entries: string[], maxAddresses = DEFAULT_MAX_ADDRESSES): ExpandedTargets {
+  const seen = new Set<string>();
+  const blocks: IPBlock[] = [];
+  const invalid: string[] = [];
+
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+
+    const single = parseIP(entry);
+    if (single) {
+      seen.add(single.address);
+    } else {
+      const span = parseSpan(entry);
+      if (!span) {
+        invalid.push(entry);
+        continue;
+      }
+      // Overlapping blocks and repeats only count their new addresses
+      const ips = expandSpan(span.start, span.end, span.family, maxAddresses, entry);
+      blocks.push({ source: entry, ips });
+      ips.forEach(ip => seen.add(ip));
+    }
+
+    if (seen.size > maxAddresses) {
+      throw new Error(`Input expands to more than ${maxAddresses} addresses`);
+    }
+  }
+
+  return { ips: [...seen], blocks, invalid };
+}
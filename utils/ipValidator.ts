@@ -1,5 +1,115 @@
 // utils/ipValidator.ts
+export type IPFamily = 4 | 6;
+
+export interface ParsedIP {
+  address: string;
+  family: IPFamily;
+}
+
+const ipv4Regex = /^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/;
+const hextetRegex = /^[0-9a-f]{1,4}$/i;
+
+// Expand an IPv6 address into its eight hextets, or null if it is malformed
+function parseIPv6Hextets(ip: string): number[] | null {
+  let input = ip;
+
+  // Rewrite an embedded IPv4 tail (e.g. ::ffff:192.0.2.1) as two hextets
+  const lastColon = input.lastIndexOf(':');
+  const maybeV4 = input.slice(lastColon + 1);
+  if (maybeV4.includes('.')) {
+    if (!ipv4Regex.test(maybeV4)) return null;
+    const octets = maybeV4.split('.').map(Number);
+    if (octets.some(octet => octet > 255)) return null;
+    const high = ((octets[0] << 8) | octets[1]).toString(16);
+    const low = ((octets[2] << 8) | octets[3]).toString(16);
+    input = `${input.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = input.split('::');
+  if (halves.length > 2) return null;
+
+  const toHextets = (part: string): number[] | null => {
+    if (part === '') return [];
+    const groups = part.split(':');
+    if (!groups.every(group => hextetRegex.test(group))) return null;
+    return groups.map(group => parseInt(group, 16));
+  };
+
+  const head = toHextets(halves[0]);
+  if (!head) return null;
+
+  if (halves.length === 1) {
+    const hextets = head;
+    return hextets.length === 8 ? hextets : null;
+  }
+
+  const rest = toHextets(halves[1]);
+  if (!rest) return null;
+  const explicit = head.length + rest.length;
+  if (explicit > 7) return null;
+  return [...head, ...new Array(8 - explicit).fill(0), ...rest];
+}
+
+// RFC 5952 text form: lowercase, no leading zeros, longest zero run as ::
+function formatIPv6(hextets: number[]): string {
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i++) {
+    if (hextets[i] !== 0) continue;
+    let j = i;
+    while (j < 8 && hextets[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const groups = hextets.map(hextet => hextet.toString(16));
+  if (bestLength < 2) return groups.join(':');
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+export function parseIP(ip: string): ParsedIP | null {
+  const trimmed = ip.trim();
+  if (ipv4Regex.test(trimmed)) {
+    const octets = trimmed.split('.').map(Number);
+    if (octets.some(octet => octet > 255)) return null;
+    // Zero-padded exports (010.000.000.001) map to the plain dotted form
+    return { address: octets.join('.'), family: 4 };
+  }
+  if (trimmed.includes(':')) {
+    const hextets = parseIPv6Hextets(trimmed);
+    if (!hextets) return null;
+    // IPv4-mapped (::ffff:192.0.2.1) is an IPv4 host; look it up in IPv4 zones
+    if (hextets.slice(0, 5).every(hextet => hextet === 0) && hextets[5] === 0xffff) {
+      return { address: [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff].join('.'), family: 4 };
+    }
+    return { address: formatIPv6(hextets), family: 6 };
+  }
+  return null;
+}
+
 export function isValidIP(ip: string): boolean {
-  const ipv4Regex = /^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/;
-  return ipv4Regex.test(ip);
-}
\ No newline at end of file
+  return parseIP(ip) !== null;
+}
+
+// Canonical form used for comparisons and as a result key
+export function normalizeIP(ip: string): string {
+  return parseIP(ip)?.address ?? ip.trim();
+}
+
+// Full 32-nibble expansion of an IPv6 address, most significant first
+export function ipv6Nibbles(ip: string): string[] {
+  const hextets = parseIPv6Hextets(ip);
+  if (!hextets) throw new Error(`Invalid IPv6 address: ${ip}`);
+  return hextets.flatMap(hextet => hextet.toString(16).padStart(4, '0').split(''));
+}
+
+// Dotted octets for IPv4, nibble-reversed for IPv6 (RFC 5782), without a zone suffix
+export function reverseName(ip: string, family: IPFamily): string {
+  const parts = family === 6 ? ipv6Nibbles(ip) : ip.split('.');
+  return parts.reverse().join('.');
+}
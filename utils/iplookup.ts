@@ -0,0 +1,257 @@
+// utils/iplookup.ts
+import type { DnsblProvider } from './dnsblProviders';
+import { DnsError, dnsErrorCode, isNegativeAnswer } from './dnsErrors';
+import {
+  getResolver,
+  ptrName,
+  type DnsResolver,
+  type QueryOptions,
+  type RecordData,
+  type RecordKind
+} from './dnsResolver';
+import { analyzeHostname } from './hostnameAnalyzer';
+import { normalizeIP, parseIP, reverseName, type IPFamily } from './ipValidator';
+import { errorFields, logger } from './logger';
+import { allListStatuses, hasLookupErrors, isOnAnyList } from './lookupResult';
+import { metrics } from './metrics';
+import { getScoringModel, scoreResult } from './scoring';
+import type { CheckOutcome, IPLookupResponse, ListStatus, ProviderResult, StandardsCompliance } from './types';
+
+type Query = <K extends RecordKind>(kind: K, name: string) => Promise<RecordData[K]>;
+
+interface CacheUsage {
+  queries: number;
+  // fetchedAt of every answer (or negative answer) served from cache
+  cachedAt: number[];
+}
+
+// Query function for one lookup that notes which answers came from cache
+function trackedQuery(dns: DnsResolver, options: QueryOptions, usage: CacheUsage): Query {
+  return async (kind, name) => {
+    usage.queries++;
+    try {
+      const answer = await dns.query(kind, name, options);
+      if (answer.cachedAt !== undefined) usage.cachedAt.push(answer.cachedAt);
+      return answer.records;
+    } catch (err) {
+      if (err instanceof DnsError && err.cachedAt !== undefined) usage.cachedAt.push(err.cachedAt);
+      throw err;
+    }
+  };
+}
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>]+/i;
+
+// TXT reason for a listing and the first URL in it; missing TXT records are common
+async function listingExplanation(query: Query, name: string): Promise<Pick<ListStatus, 'reason' | 'delistUrl'>> {
+  let records: string[][];
+  try {
+    records = await query('TXT', name);
+  } catch {
+    return {};
+  }
+  const reason = records.map(chunks => chunks.join('')).join(' ').trim();
+  if (!reason) return {};
+  const url = reason.match(URL_PATTERN)?.[0].replace(/[.,;:)\]]+$/, '');
+  return url ? { reason, delistUrl: url } : { reason };
+}
+
+// Error code for an A answer that none of the provider's return codes match
+const UNKNOWN_RETURN_CODE = 'EUNKNOWNCODE';
+
+async function queryProvider(
+  query: Query,
+  ip: string,
+  family: IPFamily,
+  provider: DnsblProvider
+): Promise<ProviderResult> {
+  if (family === 6 && !provider.ipv6) {
+    return {
+      provider: provider.id,
+      name: provider.name,
+      zone: provider.zone,
+      listStatuses: [],
+      skipped: 'Zone does not support IPv6'
+    };
+  }
+
+  const queryDomain = reverseName(ip, family) + '.' + provider.zone;
+  let addresses: string[] = [];
+  let errorCode: string | undefined;
+
+  try {
+    addresses = await query('A', queryDomain);
+  } catch (err) {
+    if (!isNegativeAnswer(err)) {
+      errorCode = dnsErrorCode(err);
+    }
+  }
+
+  // Zones publish the reason and removal link for a listing as TXT on the same name
+  const explanation = addresses.length > 0 && !errorCode ? await listingExplanation(query, queryDomain) : {};
+
+  const allLists = [...new Set(Object.values(provider.codes))];
+  const unknownAnswer = addresses.find(address => !((address.split('.').pop() || '') in provider.codes));
+
+  const listStatuses: ListStatus[] = allLists.map(list => {
+    if (errorCode) {
+      return { list, status: 'Error', errorCode };
+    }
+    const codes = Object.entries(provider.codes)
+      .filter(([, name]) => name === list)
+      .map(([code]) => code);
+    const returnCode = addresses.find(address => codes.includes(address.split('.').pop() || ''));
+    if (!returnCode) {
+      // An answer the zone does not document, e.g. Spamhaus refusing a public resolver, says nothing about listing
+      if (unknownAnswer) return { list, status: 'Error', errorCode: UNKNOWN_RETURN_CODE, returnCode: unknownAnswer };
+      return { list, status: 'Not on the list' };
+    }
+    return { list, status: 'On the list', returnCode, ...explanation };
+  });
+
+  return {
+    provider: provider.id,
+    name: provider.name,
+    zone: provider.zone,
+    listStatuses
+  };
+}
+
+async function checkCompliance(query: Query, ip: string, family: IPFamily): Promise<StandardsCompliance> {
+  let hostnames: string[];
+
+  try {
+    hostnames = await query('PTR', ptrName(ip));
+  } catch (err) {
+    if (isNegativeAnswer(err)) {
+      // No reverse DNS record, so nothing to confirm or judge
+      return {
+        reverseHostname: 'Failed!',
+        forwardConfirmed: 'Failed!',
+        namingConvention: 'Failed!',
+        hostnames: [],
+        namingReasons: ['no PTR record']
+      };
+    }
+    const code = dnsErrorCode(err);
+    return {
+      reverseHostname: 'Error',
+      forwardConfirmed: 'Error',
+      namingConvention: 'Error',
+      hostnames: [],
+      errorCodes: { reverseHostname: code, forwardConfirmed: code, namingConvention: code }
+    };
+  }
+
+  // The naming convention passes when any hostname looks like a mail server
+  const analyses = hostnames.map(hostname => ({ hostname, reasons: analyzeHostname(hostname, ip, family) }));
+  const namingConvention: CheckOutcome = analyses.some(analysis => analysis.reasons.length === 0) ? 'Passed!' : 'Failed!';
+  const namingReasons =
+    namingConvention === 'Failed!'
+      ? analyses.flatMap(({ hostname, reasons }) => reasons.map(reason => `${hostname}: ${reason}`))
+      : undefined;
+
+  let forwardConfirmed: CheckOutcome = 'Failed!';
+  let forwardError: string | undefined;
+
+  for (const hostname of hostnames) {
+    try {
+      const addresses = await query(family === 6 ? 'AAAA' : 'A', hostname);
+      if (addresses.map(normalizeIP).includes(ip)) {
+        forwardConfirmed = 'Passed!';
+        break;
+      }
+    } catch (err) {
+      // A hostname without addresses is a plain failure; remember real errors
+      if (!isNegativeAnswer(err)) {
+        forwardError = dnsErrorCode(err);
+      }
+    }
+  }
+
+  if (forwardConfirmed !== 'Passed!' && forwardError) {
+    return {
+      reverseHostname: 'Passed!',
+      forwardConfirmed: 'Error',
+      namingConvention,
+      hostnames,
+      namingReasons,
+      errorCodes: { forwardConfirmed: forwardError }
+    };
+  }
+
+  return { reverseHostname: 'Passed!', forwardConfirmed, namingConvention, hostnames, namingReasons };
+}
+
+export interface LookupOptions {
+  resolver?: DnsResolver;
+  // Bypass cached DNS answers for this lookup
+  fresh?: boolean;
+}
+
+async function lookup(input: string, providers: DnsblProvider[], options: LookupOptions): Promise<IPLookupResponse> {
+  const parsed = parseIP(input);
+  if (!parsed) throw new Error(`Invalid IP address: ${input}`);
+  const { address: ip, family } = parsed;
+
+  const dns = options.resolver ?? getResolver();
+  const usage: CacheUsage = { queries: 0, cachedAt: [] };
+  const query = trackedQuery(dns, { fresh: options.fresh }, usage);
+
+  const [standardsCompliance, providerResults] = await Promise.all([
+    checkCompliance(query, ip, family),
+    Promise.all(providers.map(provider => queryProvider(query, ip, family, provider)))
+  ]);
+
+  // A result counts as cached only when every answer behind it was
+  const cached = usage.queries > 0 && usage.cachedAt.length === usage.queries;
+
+  return {
+    ip,
+    family,
+    resolver: dns.name,
+    cached,
+    cacheAge: cached ? Math.round((Date.now() - Math.min(...usage.cachedAt)) / 1000) : undefined,
+    standardsCompliance,
+    providers: providerResults,
+    score: scoreResult({ standardsCompliance, providers: providerResults }, getScoringModel())
+  };
+}
+
+// Count the lookup's outcome and per-list answers, and log it with the request ID
+function recordLookup(result: IPLookupResponse, durationMs: number): void {
+  const outcome = isOnAnyList(result) ? 'listed' : hasLookupErrors(result) ? 'error' : 'clean';
+  metrics.lookups.inc({ outcome });
+  for (const provider of result.providers) {
+    for (const status of provider.listStatuses) {
+      metrics.listResults.inc({ zone: provider.zone, outcome: status.status });
+    }
+  }
+  logger.info('lookup', {
+    ip: result.ip,
+    outcome,
+    score: result.score.value,
+    listedOn: allListStatuses(result)
+      .filter(status => status.status === 'On the list')
+      .map(status => status.list),
+    cached: result.cached,
+    durationMs
+  });
+}
+
+export async function iplookup(
+  input: string,
+  providers: DnsblProvider[],
+  options: LookupOptions = {}
+): Promise<IPLookupResponse> {
+  const start = Date.now();
+  try {
+    const result = await lookup(input, providers, options);
+    recordLookup(result, Date.now() - start);
+    return result;
+  } catch (err) {
+    metrics.lookups.inc({ outcome: 'failed' });
+    logger.warn('lookup_failed', { ip: input, error: errorFields(err), durationMs: Date.now() - start });
+    throw err;
+  }
+}
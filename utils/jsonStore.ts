@@ -0,0 +1,57 @@
+// utils/jsonStore.ts
+import fs from 'fs';
+import path from 'path';
+
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  // Apply a change and persist it; updates run one at a time
+  update<R>(change: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+// Directory for the server's local state files, from DATA_DIR
+export function dataPath(file: string): string {
+  return path.resolve(process.env.DATA_DIR || 'data', file);
+}
+
+// Update queues per file, on globalThis so every route bundle shares them
+const globalQueues = globalThis as typeof globalThis & { jsonStoreQueues?: Map<string, Promise<unknown>> };
+
+/**
+ * A JSON document on disk. Writes go through a temp file and a rename so a
+ * crash never leaves half a file behind, and are serialized so concurrent
+ * requests cannot lose each other's changes.
+ */
+export function createJsonStore<T>(file: string, initial: () => T): JsonStore<T> {
+  const queues = (globalQueues.jsonStoreQueues ??= new Map());
+
+  const load = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8')) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return initial();
+      throw err;
+    }
+  };
+
+  const save = async (data: T) => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2));
+    await fs.promises.rename(tmp, file);
+  };
+
+  return {
+    read: () => load(),
+    update: <R>(change: (data: T) => R | Promise<R>) => {
+      const run = (queues.get(file) ?? Promise.resolve()).then(async () => {
+        const data = await load();
+        const result = await change(data);
+        await save(data);
+        return result;
+      });
+      // Keep the chain alive after a failed update
+      queues.set(file, run.catch(() => undefined));
+      return run;
+    }
+  };
+}
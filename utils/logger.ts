@@ -0,0 +1,100 @@
+// utils/logger.ts
+// Structured JSON logs, one object per line, tagged with the ID of the request being served
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+type LogFields = Record<string, unknown>;
+
+interface LoggerConfig {
+  level: LogLevel;
+  stream: NodeJS.WritableStream;
+}
+
+function levelFromEnv(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = (env.LOG_LEVEL ?? 'info').toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  return level;
+}
+
+// Each route bundle loads its own copy of this module; share the config and context
+const globalLogger = globalThis as typeof globalThis & {
+  loggerConfig?: LoggerConfig;
+  requestContext?: AsyncLocalStorage<{ requestId: string }>;
+};
+
+function loggerConfig(): LoggerConfig {
+  return (globalLogger.loggerConfig ??= { level: levelFromEnv(), stream: process.stdout });
+}
+
+const requestContext = (globalLogger.requestContext ??= new AsyncLocalStorage());
+
+// The CLI writes results to stdout, so it sends its logs elsewhere
+export function configureLogger(options: Partial<LoggerConfig>): void {
+  Object.assign(loggerConfig(), options);
+}
+
+// ID of the request being served, if any
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, event: string, fields: LogFields): void {
+  const config = loggerConfig();
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(config.level)) return;
+  const requestId = currentRequestId();
+  const line = { time: new Date().toISOString(), level, event, ...(requestId && { requestId }), ...fields };
+  config.stream.write(JSON.stringify(line) + '\n');
+}
+
+// Message, code and stack of a thrown value, for the error field of a log line
+export function errorFields(err: unknown): LogFields {
+  if (!(err instanceof Error)) return { message: String(err) };
+  const code = (err as NodeJS.ErrnoException).code;
+  return { message: err.message, ...(code && { code }), stack: err.stack };
+}
+
+export const logger = {
+  debug: (event: string, fields: LogFields = {}) => write('debug', event, fields),
+  info: (event: string, fields: LogFields = {}) => write('info', event, fields),
+  warn: (event: string, fields: LogFields = {}) => write('warn', event, fields),
+  error: (event: string, fields: LogFields = {}) => write('error', event, fields)
+};
+
+// Callers may pass their own ID, e.g. from a proxy, as long as it is log-safe
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+/**
+ * Wrap a route handler: give the request an ID, echo it in the X-Request-Id
+ * header, log the request when it completes, and turn an unhandled error into
+ * a logged 500 that carries the ID, so a report can be matched to the log.
+ */
+export function withRequestLogging<C = { params: Promise<Record<string, string>> }>(
+  handler: (request: Request, context: C) => Promise<Response>
+): (request: Request, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const incoming = request.headers.get('x-request-id');
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    const start = Date.now();
+    const path = new URL(request.url).pathname;
+
+    return requestContext.run({ requestId }, async () => {
+      let response: Response;
+      try {
+        response = await handler(request, context);
+      } catch (err) {
+        logger.error('request_failed', { method: request.method, path, error: errorFields(err) });
+        response = Response.json({ error: 'Internal server error', requestId }, { status: 500 });
+      }
+      response.headers.set('X-Request-Id', requestId);
+      // Streaming responses are logged when their headers go out, not when the stream ends
+      logger.info('request', { method: request.method, path, status: response.status, durationMs: Date.now() - start });
+      return response;
+    });
+  };
+}
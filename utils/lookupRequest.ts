@@ -0,0 +1,43 @@
+// utils/lookupRequest.ts
+import { selectProviders, type DnsblProvider } from './dnsblProviders';
+import { isValidIP } from './ipValidator';
+
+export type LookupRequest =
+  | { ok: true; ips: string[]; providers: DnsblProvider[]; fresh: boolean }
+  | { ok: false; error: string };
+
+// Validate the { ips, providers, fresh } body shared by the lookup routes
+export function parseLookupRequest(body: unknown): LookupRequest {
+  const { ips, providers: providerIds, fresh } = (body ?? {}) as {
+    ips?: unknown;
+    providers?: unknown;
+    fresh?: unknown;
+  };
+
+  if (!ips || !Array.isArray(ips) || ips.length === 0) {
+    return { ok: false, error: 'Array of IP addresses is required' };
+  }
+
+  const invalidIps = ips.filter((ip: unknown) => typeof ip !== 'string' || !isValidIP(ip));
+  if (invalidIps.length > 0) {
+    return { ok: false, error: `Invalid IP addresses: ${invalidIps.join(', ')}` };
+  }
+
+  if (providerIds !== undefined && !Array.isArray(providerIds)) {
+    return { ok: false, error: 'providers must be an array of provider ids' };
+  }
+
+  const { providers, unknown } = selectProviders(providerIds as string[] | undefined);
+  if (unknown.length > 0) {
+    return { ok: false, error: `Unknown or disabled providers: ${unknown.join(', ')}` };
+  }
+  if (providers.length === 0) {
+    return { ok: false, error: 'At least one DNSBL provider is required' };
+  }
+
+  if (fresh !== undefined && typeof fresh !== 'boolean') {
+    return { ok: false, error: 'fresh must be a boolean' };
+  }
+
+  return { ok: true, ips: ips as string[], providers, fresh: fresh === true };
+}
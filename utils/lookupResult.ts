@@ -0,0 +1,32 @@
+// utils/lookupResult.ts
+import type { ComplianceCheck, IPLookupResponse, ListStatus } from './types';
+
+export const COMPLIANCE_CHECKS: readonly ComplianceCheck[] = ['reverseHostname', 'forwardConfirmed', 'namingConvention'];
+
+// Display names for the compliance checks
+export const COMPLIANCE_LABELS: Record<ComplianceCheck, string> = {
+  reverseHostname: 'Reverse Hostname',
+  forwardConfirmed: 'Forward-Confirmed rDNS',
+  namingConvention: 'Naming Convention'
+};
+
+export function allListStatuses(result: Pick<IPLookupResponse, 'providers'>): ListStatus[] {
+  return result.providers.flatMap(provider => provider.listStatuses);
+}
+
+export function isOnAnyList(result: IPLookupResponse): boolean {
+  return allListStatuses(result).some(status => status.status === 'On the list');
+}
+
+// True when any DNS query behind the result failed, so the run is worth retrying
+export function hasLookupErrors(result: Pick<IPLookupResponse, 'providers' | 'standardsCompliance'>): boolean {
+  return (
+    COMPLIANCE_CHECKS.some(check => result.standardsCompliance[check] === 'Error') ||
+    allListStatuses(result).some(status => status.status === 'Error')
+  );
+}
+
+// Outcome text with the DNS error code appended, e.g. "Error (ETIMEOUT)"
+export function formatOutcome(outcome: string, errorCode?: string): string {
+  return outcome === 'Error' && errorCode ? `${outcome} (${errorCode})` : outcome;
+}
@@ -0,0 +1,159 @@
+// utils/metrics.ts
+// Process-wide counters, gauges and histograms, rendered in the Prometheus text format
+import { dnsErrorCode, isNegativeAnswer } from './dnsErrors';
+import type { DnsResolver, RecordKind } from './dnsResolver';
+
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+  // Histograms only: cumulative count per bucket, and the sum of observations
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  buckets?: number[];
+  series: Map<string, Series>;
+}
+
+// Next.js bundles each route separately, so the registry lives on globalThis
+const globalMetrics = globalThis as typeof globalThis & { metricsRegistry?: Map<string, Metric> };
+
+function register(name: string, help: string, type: Metric['type'], buckets?: number[]): Metric {
+  const registry = (globalMetrics.metricsRegistry ??= new Map());
+  if (!registry.has(name)) registry.set(name, { name, help, type, buckets, series: new Map() });
+  return registry.get(name) as Metric;
+}
+
+function series(metric: Metric, labels: Labels): Series {
+  const key = JSON.stringify(Object.entries(labels).sort());
+  let entry = metric.series.get(key);
+  if (!entry) {
+    entry = { labels, value: 0 };
+    if (metric.buckets) {
+      entry.buckets = metric.buckets.map(() => 0);
+      entry.sum = 0;
+    }
+    metric.series.set(key, entry);
+  }
+  return entry;
+}
+
+function counter(name: string, help: string) {
+  const metric = register(name, help, 'counter');
+  return {
+    inc: (labels: Labels = {}, value = 1) => {
+      series(metric, labels).value += value;
+    },
+    get: (labels: Labels = {}) => metric.series.get(JSON.stringify(Object.entries(labels).sort()))?.value ?? 0
+  };
+}
+
+function gauge(name: string, help: string) {
+  const metric = register(name, help, 'gauge');
+  // Unlabeled gauges report 0 before their first update
+  series(metric, {});
+  return {
+    set: (value: number, labels: Labels = {}) => {
+      series(metric, labels).value = value;
+    },
+    inc: (value = 1, labels: Labels = {}) => {
+      series(metric, labels).value += value;
+    }
+  };
+}
+
+function histogram(name: string, help: string, buckets: number[]) {
+  const metric = register(name, help, 'histogram', buckets);
+  return {
+    observe: (labels: Labels, value: number) => {
+      const entry = series(metric, labels);
+      entry.value++;
+      entry.sum = (entry.sum ?? 0) + value;
+      buckets.forEach((bound, index) => {
+        if (value <= bound) (entry.buckets as number[])[index]++;
+      });
+    }
+  };
+}
+
+export const metrics = {
+  lookups: counter('spamrat_lookups_total', 'IP lookups by outcome: listed, clean, error (DNS errors, not listed) or failed'),
+  listResults: counter('spamrat_list_results_total', 'DNSBL list answers by zone and outcome'),
+  dnsDuration: histogram(
+    'spamrat_dns_query_duration_seconds',
+    'Upstream DNS query latency by zone and record type; cached answers are not included',
+    [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+  ),
+  dnsErrors: counter('spamrat_dns_errors_total', 'Failed upstream DNS queries by error code; NXDOMAIN and NODATA are answers, not errors'),
+  cacheRequests: counter('spamrat_dns_cache_requests_total', 'DNS cache lookups by result (hit or miss)'),
+  cacheHitRatio: gauge('spamrat_dns_cache_hit_ratio', 'Share of DNS cache lookups answered from cache'),
+  batchInFlight: gauge('spamrat_batch_in_flight_ips', 'IPs accepted by running batch requests and not yet looked up'),
+  batchRequests: gauge('spamrat_batch_requests_in_flight', 'Batch lookup requests currently streaming')
+};
+
+// Zone label for a query: the DNSBL zone it went to, the reverse tree, or "forward"
+function zoneLabel(kind: RecordKind, name: string, zones: string[]): string {
+  const lower = name.toLowerCase();
+  if (kind === 'PTR') return lower.endsWith('.ip6.arpa') ? 'ip6.arpa' : 'in-addr.arpa';
+  return zones.find(zone => lower.endsWith(`.${zone}`)) ?? 'forward';
+}
+
+/**
+ * Wrap the upstream resolver so every query it sends is timed and failures
+ * are counted by code. It sits under the cache, so only real queries count.
+ */
+export function instrumentResolver(resolver: DnsResolver, zones: () => string[]): DnsResolver {
+  const query: DnsResolver['query'] = async (kind, name, options) => {
+    const labels = { zone: zoneLabel(kind, name, zones()), type: kind };
+    const start = process.hrtime.bigint();
+    try {
+      return await resolver.query(kind, name, options);
+    } catch (err) {
+      if (!isNegativeAnswer(err)) metrics.dnsErrors.inc({ code: dnsErrorCode(err) });
+      throw err;
+    } finally {
+      metrics.dnsDuration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  };
+  return { name: resolver.name, query };
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}` : '';
+}
+
+// Every registered metric in the Prometheus text exposition format
+export function renderMetrics(): string {
+  const hits = metrics.cacheRequests.get({ result: 'hit' });
+  const total = hits + metrics.cacheRequests.get({ result: 'miss' });
+  metrics.cacheHitRatio.set(total > 0 ? hits / total : 0);
+
+  const lines: string[] = [];
+  for (const metric of globalMetrics.metricsRegistry?.values() ?? []) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+    for (const entry of metric.series.values()) {
+      if (metric.type !== 'histogram') {
+        lines.push(`${metric.name}${formatLabels(entry.labels)} ${entry.value}`);
+        continue;
+      }
+      (metric.buckets as number[]).forEach((bound, index) => {
+        lines.push(`${metric.name}_bucket${formatLabels(entry.labels, { le: String(bound) })} ${(entry.buckets as number[])[index]}`);
+      });
+      lines.push(
+        `${metric.name}_bucket${formatLabels(entry.labels, { le: '+Inf' })} ${entry.value}`,
+        `${metric.name}_sum${formatLabels(entry.labels)} ${entry.sum}`,
+        `${metric.name}_count${formatLabels(entry.labels)} ${entry.value}`
+      );
+    }
+  }
+  return lines.join('\n') + '\n';
+}
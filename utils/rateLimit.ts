@@ -0,0 +1,62 @@
+// utils/rateLimit.ts
+export interface TokenBucketConfig {
+  // Most tokens a client can hold, i.e. the largest burst
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type TakeResult = { ok: true } | { ok: false; retryAfter: number };
+
+export interface TokenBucketLimiter {
+  // Take `cost` tokens from the client's bucket; nothing is taken when it is short
+  take(id: string, cost: number): TakeResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets idle long enough to be full again carry no state and are dropped
+const PRUNE_INTERVAL_MS = 60_000;
+
+export function createTokenBucketLimiter(config: TokenBucketConfig, now: () => number = Date.now): TokenBucketLimiter {
+  const buckets = new Map<string, Bucket>();
+  let lastPrune = now();
+
+  const refill = (bucket: Bucket, at: number) => {
+    const elapsed = (at - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + elapsed * config.refillPerSecond);
+    bucket.updatedAt = at;
+  };
+
+  const prune = (at: number) => {
+    if (at - lastPrune < PRUNE_INTERVAL_MS) return;
+    lastPrune = at;
+    for (const [id, bucket] of buckets) {
+      refill(bucket, at);
+      if (bucket.tokens >= config.capacity) buckets.delete(id);
+    }
+  };
+
+  return {
+    take(id, cost) {
+      const at = now();
+      prune(at);
+
+      let bucket = buckets.get(id);
+      if (!bucket) {
+        bucket = { tokens: config.capacity, updatedAt: at };
+        buckets.set(id, bucket);
+      }
+      refill(bucket, at);
+
+      if (bucket.tokens >= cost) {
+        bucket.tokens -= cost;
+        return { ok: true };
+      }
+      const missing = Math.min(cost, config.capacity) - bucket.tokens;
+      return { ok: false, retryAfter: Math.max(1, Math.ceil(missing / config.refillPerSecond)) };
+    }
+  };
+}
@@ -0,0 +1,136 @@
+// utils/reports.ts
+// Saved reports: a run with its input and metadata, shared read-only under a permalink
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { exportMetadata } from './exports';
+import { createJsonStore, dataPath } from './jsonStore';
+import { isOnAnyList } from './lookupResult';
+import { isLookupResult } from './runDiff';
+import type { IPLookupResponse, SavedReport, SavedReportSummary } from './types';
+
+interface ReportIndex {
+  reports: SavedReportSummary[];
+}
+
+// Each report is its own file so listing reports never loads their results
+const reportsDir = process.env.REPORTS_DIR || dataPath('reports');
+const index = createJsonStore<ReportIndex>(path.join(reportsDir, 'index.json'), () => ({ reports: [] }));
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Longest expiry a report may be given
+export const MAX_EXPIRY_DAYS = 3650;
+
+function reportFile(id: string): string | null {
+  return ID_PATTERN.test(id) ? path.join(reportsDir, `${id}.json`) : null;
+}
+
+const isExpired = (report: SavedReportSummary, now = Date.now()) =>
+  report.expiresAt !== undefined && Date.parse(report.expiresAt) <= now;
+
+// Drop expired reports from the index and delete their files
+async function purgeExpired(): Promise<void> {
+  const now = Date.now();
+  const expired = await index.update(data => {
+    const gone = data.reports.filter(report => isExpired(report, now));
+    data.reports = data.reports.filter(report => !isExpired(report, now));
+    return gone;
+  });
+  await Promise.all(expired.map(report => fs.promises.rm(reportFile(report.id) as string, { force: true })));
+}
+
+// Reports that have not expired, newest first
+export async function listReports(): Promise<SavedReportSummary[]> {
+  const { reports } = await index.read();
+  if (reports.some(report => isExpired(report))) await purgeExpired();
+  return [...(await index.read()).reports].reverse();
+}
+
+// An expired report reads as missing even before it is purged
+export async function getReport(id: string): Promise<SavedReport | null> {
+  const file = reportFile(id);
+  if (!file) return null;
+  const report = await createJsonStore<SavedReport | null>(file, () => null).read();
+  if (report && isExpired(report)) {
+    await purgeExpired();
+    return null;
+  }
+  return report;
+}
+
+export function reportSummary({ id, name, createdAt, expiresAt, count, listed, score }: SavedReport): SavedReportSummary {
+  return { id, name, createdAt, ...(expiresAt && { expiresAt }), count, listed, score };
+}
+
+export async function saveReport(report: Extract<ParsedReport, { ok: true }>): Promise<SavedReportSummary> {
+  const createdAt = new Date();
+  const metadata = exportMetadata(report.results, createdAt.toISOString());
+  const saved: SavedReport = {
+    id: randomUUID(),
+    name: report.name,
+    createdAt: metadata.generatedAt,
+    ...(report.expiresInDays && {
+      expiresAt: new Date(createdAt.getTime() + report.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    }),
+    count: report.results.length,
+    listed: report.results.filter(isOnAnyList).length,
+    score: metadata.score,
+    input: report.input,
+    metadata,
+    results: report.results
+  };
+  // A new file starts out as the report itself, so the empty update just writes it
+  await createJsonStore<SavedReport>(reportFile(saved.id) as string, () => saved).update(() => undefined);
+
+  const summary = reportSummary(saved);
+  await index.update(data => {
+    data.reports.push(summary);
+  });
+  return summary;
+}
+
+export async function deleteReport(id: string): Promise<boolean> {
+  const file = reportFile(id);
+  if (!file) return false;
+  const removed = await index.update(data => {
+    const before = data.reports.length;
+    data.reports = data.reports.filter(report => report.id !== id);
+    return data.reports.length < before;
+  });
+  if (removed) await fs.promises.rm(file, { force: true });
+  return removed;
+}
+
+export type ParsedReport =
+  | { ok: true; name: string; input: string[]; results: IPLookupResponse[]; expiresInDays?: number }
+  | { ok: false; error: string };
+
+// Validate a POST /api/reports body
+export function parseSaveReport(body: unknown): ParsedReport {
+  const { name, input, results, expiresInDays } = (body ?? {}) as Record<string, unknown>;
+  if (name !== undefined && typeof name !== 'string') {
+    return { ok: false, error: 'name must be a string' };
+  }
+  if (input !== undefined && !(Array.isArray(input) && input.every(entry => typeof entry === 'string'))) {
+    return { ok: false, error: 'input must be an array of strings' };
+  }
+  if (!Array.isArray(results) || results.length === 0 || !results.every(isLookupResult)) {
+    return { ok: false, error: 'results must be a non-empty array of lookup results' };
+  }
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    !(Number.isInteger(expiresInDays) && (expiresInDays as number) >= 1 && (expiresInDays as number) <= MAX_EXPIRY_DAYS)
+  ) {
+    return { ok: false, error: `expiresInDays must be a whole number of days from 1 to ${MAX_EXPIRY_DAYS}` };
+  }
+  return {
+    ok: true,
+    name: name?.trim() || `Report of ${results.length} IPs`,
+    // Without the entered targets, the checked IPs are the input
+    input: (input as string[] | undefined) ?? results.map(result => result.ip),
+    results,
+    ...(typeof expiresInDays === 'number' && { expiresInDays })
+  };
+}
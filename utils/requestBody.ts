@@ -0,0 +1,19 @@
+// utils/requestBody.ts
+
+export type JsonBody = { ok: true; body: unknown } | { ok: false; error: string };
+
+export interface JsonBodyOptions {
+  // Accept an empty body, read as undefined
+  optional?: boolean;
+}
+
+// Parse a request's JSON body; a malformed one is the caller's error (400), not a server error
+export async function readJsonBody(request: Request, options: JsonBodyOptions = {}): Promise<JsonBody> {
+  try {
+    const text = await request.text();
+    if (options.optional && text.trim() === '') return { ok: true, body: undefined };
+    return { ok: true, body: JSON.parse(text) };
+  } catch (err) {
+    return { ok: false, error: 'Request body must be JSON' };
+  }
+}
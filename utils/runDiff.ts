@@ -0,0 +1,229 @@
+// utils/runDiff.ts
+// Comparison of two lookup runs: live results, saved runs or re-imported exports
+import { splitLine } from './csvParser';
+import { LIST_COLUMN_PREFIX, type ExportRow } from './exports';
+import { isValidIP, normalizeIP } from './ipValidator';
+import { allListStatuses, COMPLIANCE_CHECKS, COMPLIANCE_LABELS } from './lookupResult';
+import { SEVERITY_BANDS } from './scoring';
+import type { ComplianceCheck, IPLookupResponse, RunChange, RunDiff, SeverityBand } from './types';
+
+// Outcomes of one IP in one run, keyed list:<list name> and compliance:<check>.
+// Exports only carry list names, so lists are matched by name across providers.
+export interface RunSnapshot {
+  ip: string;
+  outcomes: Record<string, string>;
+}
+
+const LIST_OUTCOMES: readonly string[] = ['On the list', 'Not on the list', 'Error'];
+const CHECK_OUTCOMES: readonly string[] = ['Passed!', 'Failed!', 'Error'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || typeof value === type;
+
+function isListStatus(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.list === 'string' &&
+    LIST_OUTCOMES.includes(value.status as string) &&
+    ['errorCode', 'returnCode', 'reason', 'delistUrl'].every(field => isOptional(value[field], 'string'))
+  );
+}
+
+function isProviderResult(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    ['provider', 'name', 'zone'].every(field => typeof value[field] === 'string') &&
+    Array.isArray(value.listStatuses) &&
+    value.listStatuses.every(isListStatus) &&
+    isOptional(value.skipped, 'string')
+  );
+}
+
+function isStandardsCompliance(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    COMPLIANCE_CHECKS.every(check => CHECK_OUTCOMES.includes(value[check] as string)) &&
+    isStringArray(value.hostnames) &&
+    (value.namingReasons === undefined || isStringArray(value.namingReasons)) &&
+    (value.errorCodes === undefined ||
+      (isObject(value.errorCodes) && Object.values(value.errorCodes).every(code => typeof code === 'string')))
+  );
+}
+
+function isReputationScore(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.value === 'number' &&
+    value.value >= 0 &&
+    value.value <= 100 &&
+    SEVERITY_BANDS.includes(value.band as SeverityBand) &&
+    Array.isArray(value.factors) &&
+    value.factors.every(factor => isObject(factor) && typeof factor.name === 'string' && typeof factor.weight === 'number')
+  );
+}
+
+// Shape check for results read back from JSON: every field the runs, diffs,
+// exports and report pages read
+export function isLookupResult(value: unknown): value is IPLookupResponse {
+  return (
+    isObject(value) &&
+    typeof value.ip === 'string' &&
+    isValidIP(value.ip) &&
+    (value.family === 4 || value.family === 6) &&
+    typeof value.resolver === 'string' &&
+    typeof value.cached === 'boolean' &&
+    isOptional(value.cacheAge, 'number') &&
+    isStandardsCompliance(value.standardsCompliance) &&
+    Array.isArray(value.providers) &&
+    value.providers.every(isProviderResult) &&
+    isReputationScore(value.score)
+  );
+}
+
+export function snapshotResults(results: IPLookupResponse[]): RunSnapshot[] {
+  return results.map(result => ({
+    ip: normalizeIP(result.ip),
+    outcomes: {
+      ...Object.fromEntries(allListStatuses(result).map(status => [`list:${status.list}`, status.status])),
+      ...Object.fromEntries(COMPLIANCE_CHECKS.map(check => [`compliance:${check}`, result.standardsCompliance[check]]))
+    }
+  }));
+}
+
+// Exports write "Error (ETIMEOUT)"; the code does not matter for a comparison
+const parseOutcome = (text: string) => (text.startsWith('Error') ? 'Error' : text);
+
+// Read back a CSV export: one column per list, or the older single "List Status" column
+function snapshotCSV(text: string): RunSnapshot[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const header = splitLine(lines[0] ?? '', ',');
+  const ipColumn = header.indexOf('IP');
+  if (ipColumn === -1) throw new Error('Not a results export: no IP column');
+  const listColumn = header.indexOf('List Status');
+  const listColumns = header
+    .map((name, column) => [name.slice(LIST_COLUMN_PREFIX.length), column] as const)
+    .filter(([, column]) => header[column].startsWith(LIST_COLUMN_PREFIX));
+  const checkColumns = COMPLIANCE_CHECKS.map(check => [check, header.indexOf(COMPLIANCE_LABELS[check])] as const).filter(
+    ([, column]) => column !== -1
+  );
+
+  return lines.slice(1).map((line, index) => {
+    const cells = splitLine(line, ',');
+    const ip = cells[ipColumn] ?? '';
+    if (!isValidIP(ip)) throw new Error(`Line ${index + 2}: invalid IP "${ip}"`);
+
+    const outcomes: Record<string, string> = {};
+    // "RATS-Spam:On the list|RATS-Dyna:Not on the list"
+    for (const entry of (listColumn === -1 ? '' : cells[listColumn] ?? '').split('|').filter(Boolean)) {
+      const separator = entry.lastIndexOf(':');
+      if (separator > 0) outcomes[`list:${entry.slice(0, separator)}`] = parseOutcome(entry.slice(separator + 1));
+    }
+    for (const [list, column] of listColumns) {
+      if (cells[column]) outcomes[`list:${list}`] = parseOutcome(cells[column]);
+    }
+    for (const [check, column] of checkColumns) {
+      if (cells[column]) outcomes[`compliance:${check}`] = parseOutcome(cells[column]);
+    }
+    return { ip: normalizeIP(ip), outcomes };
+  });
+}
+
+// Read back an NDJSON export, one flat record per line
+function snapshotNDJSON(lines: string[]): RunSnapshot[] {
+  return lines.map((line, index) => {
+    const row = JSON.parse(line) as ExportRow;
+    if (typeof row.ip !== 'string' || !isValidIP(row.ip)) throw new Error(`Line ${index + 1}: invalid IP`);
+    const outcomes: Record<string, string> = {};
+    for (const [list, outcome] of Object.entries(row.lists ?? {})) outcomes[`list:${list}`] = parseOutcome(outcome);
+    for (const check of COMPLIANCE_CHECKS) {
+      if (typeof row[check] === 'string') outcomes[`compliance:${check}`] = parseOutcome(row[check]);
+    }
+    return { ip: normalizeIP(row.ip), outcomes };
+  });
+}
+
+/**
+ * Read a previous run from a CSV, JSON or NDJSON export. JSON may also be a
+ * bare array of lookup results. Throws on anything else.
+ */
+export function parseRunExport(text: string): RunSnapshot[] {
+  const trimmed = text.trim();
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+  // NDJSON records are flat: an ip but no providers array
+  if (lines.every(line => /^\{.*\}$/.test(line.trim()))) {
+    const first = JSON.parse(lines[0]);
+    if (typeof first?.ip === 'string' && !Array.isArray(first.providers)) return snapshotNDJSON(lines);
+  }
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const results: unknown = Array.isArray(data) ? data : data?.results;
+    if (!Array.isArray(results) || !results.every(isLookupResult)) {
+      throw new Error('Not a results export: expected an array of lookup results');
+    }
+    return snapshotResults(results);
+  }
+  return snapshotCSV(trimmed);
+}
+
+/**
+ * Compare an older run with a newer one. Only answers are compared: an
+ * "Error" on either side, or a list or check missing from one run, is not a
+ * change.
+ */
+export function diffRuns(before: RunSnapshot[], after: RunSnapshot[]): RunDiff {
+  const previous = new Map(before.map(snapshot => [snapshot.ip, snapshot]));
+  const current = new Set(after.map(snapshot => snapshot.ip));
+  const diff: RunDiff = {
+    added: [],
+    removed: before.filter(snapshot => !current.has(snapshot.ip)).map(snapshot => snapshot.ip),
+    listed: [],
+    delisted: [],
+    compliance: []
+  };
+
+  for (const snapshot of after) {
+    const old = previous.get(snapshot.ip);
+    if (!old) {
+      diff.added.push(snapshot.ip);
+      continue;
+    }
+    for (const [key, to] of Object.entries(snapshot.outcomes)) {
+      const from = old.outcomes[key];
+      if (!from || from === to || from === 'Error' || to === 'Error') continue;
+
+      const separator = key.indexOf(':');
+      const kind = key.slice(0, separator) as RunChange['kind'];
+      const change: RunChange = { ip: snapshot.ip, kind, name: key.slice(separator + 1), from, to };
+      if (kind === 'compliance') {
+        diff.compliance.push(change);
+      } else if (to === 'On the list') {
+        diff.listed.push(change);
+      } else {
+        diff.delisted.push(change);
+      }
+    }
+  }
+
+  return diff;
+}
+
+export function changeLabel(change: RunChange): string {
+  return change.kind === 'compliance' ? COMPLIANCE_LABELS[change.name as ComplianceCheck] ?? change.name : change.name;
+}
+
+// The diff as its own report, one row per change
+export function diffToCSV(diff: RunDiff): string {
+  const row = (cells: string[]) => cells.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',');
+  const changeRows = (label: string, changes: RunChange[]) =>
+    changes.map(change => row([label, change.ip, changeLabel(change), change.from, change.to]));
+
+  return [
+    'Change,IP,List or Check,Before,After',
+    ...diff.added.map(ip => row(['Added', ip, '', '', ''])),
+    ...diff.removed.map(ip => row(['Removed', ip, '', '', ''])),
+    ...changeRows('Newly listed', diff.listed),
+    ...changeRows('Delisted', diff.delisted),
+    ...changeRows('Compliance changed', diff.compliance)
+  ].join('\n');
+}
@@ -0,0 +1,89 @@
+// utils/runs.ts
+// Lookup runs saved server-side, so a later run of the same inventory can be compared with them
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { parseInteger } from './env';
+import { createJsonStore, dataPath } from './jsonStore';
+import { isOnAnyList } from './lookupResult';
+import { isLookupResult } from './runDiff';
+import type { IPLookupResponse, SavedRun, SavedRunSummary } from './types';
+
+interface RunIndex {
+  runs: SavedRunSummary[];
+}
+
+// Each run is its own file so listing runs never loads their results
+const runsDir = process.env.RUNS_DIR || dataPath('runs');
+const index = createJsonStore<RunIndex>(path.join(runsDir, 'index.json'), () => ({ runs: [] }));
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function runFile(id: string): string | null {
+  return ID_PATTERN.test(id) ? path.join(runsDir, `${id}.json`) : null;
+}
+
+// Saved runs kept, from RUNS_LIMIT; the oldest are dropped first
+function runsLimit(): number {
+  return Math.max(1, parseInteger(process.env.RUNS_LIMIT, 'RUNS_LIMIT', 50));
+}
+
+// Newest first
+export async function listRuns(): Promise<SavedRunSummary[]> {
+  return [...(await index.read()).runs].reverse();
+}
+
+export async function getRun(id: string): Promise<SavedRun | null> {
+  const file = runFile(id);
+  if (!file) return null;
+  return createJsonStore<SavedRun | null>(file, () => null).read();
+}
+
+export function runSummary({ id, name, createdAt, count, listed }: SavedRun): SavedRunSummary {
+  return { id, name, createdAt, count, listed };
+}
+
+export async function saveRun(name: string, results: IPLookupResponse[]): Promise<SavedRunSummary> {
+  const summary: SavedRunSummary = {
+    id: randomUUID(),
+    name,
+    createdAt: new Date().toISOString(),
+    count: results.length,
+    listed: results.filter(isOnAnyList).length
+  };
+  // A new file starts out as the run itself, so the empty update just writes it
+  await createJsonStore<SavedRun>(runFile(summary.id) as string, () => ({ ...summary, results })).update(() => undefined);
+
+  const dropped = await index.update(data => {
+    data.runs.push(summary);
+    return data.runs.splice(0, Math.max(0, data.runs.length - runsLimit()));
+  });
+  await Promise.all(dropped.map(run => fs.promises.rm(runFile(run.id) as string, { force: true })));
+  return summary;
+}
+
+export async function deleteRun(id: string): Promise<boolean> {
+  const file = runFile(id);
+  if (!file) return false;
+  const removed = await index.update(data => {
+    const before = data.runs.length;
+    data.runs = data.runs.filter(run => run.id !== id);
+    return data.runs.length < before;
+  });
+  if (removed) await fs.promises.rm(file, { force: true });
+  return removed;
+}
+
+export type ParsedRun = { ok: true; name: string; results: IPLookupResponse[] } | { ok: false; error: string };
+
+// Validate a POST /api/runs body
+export function parseSaveRun(body: unknown): ParsedRun {
+  const { name, results } = (body ?? {}) as { name?: unknown; results?: unknown };
+  if (name !== undefined && typeof name !== 'string') {
+    return { ok: false, error: 'name must be a string' };
+  }
+  if (!Array.isArray(results) || results.length === 0 || !results.every(isLookupResult)) {
+    return { ok: false, error: 'results must be a non-empty array of lookup results' };
+  }
+  return { ok: true, name: name?.trim() || `Run of ${results.length} IPs`, results };
+}
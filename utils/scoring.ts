@@ -0,0 +1,153 @@
+// utils/scoring.ts
+// Reputation score per IP and per run: weighted listings and failed compliance checks
+import { COMPLIANCE_CHECKS, COMPLIANCE_LABELS, hasLookupErrors } from './lookupResult';
+import type { ComplianceCheck, IPLookupResponse, ReputationScore, RunScore, SeverityBand } from './types';
+
+export interface ScoringModel {
+  // Points for being on a list, by list name
+  lists: Record<string, number>;
+  // Points for a list without its own weight, e.g. from a custom provider
+  defaultListWeight: number;
+  // Points for failing a compliance check
+  checks: Record<ComplianceCheck, number>;
+  // Lowest score of each band above clean
+  bands: Record<Exclude<SeverityBand, 'unknown' | 'clean'>, number>;
+}
+
+export const SEVERITY_BANDS: readonly SeverityBand[] = ['unknown', 'clean', 'low', 'medium', 'high', 'critical'];
+
+// Spam and exploit listings outweigh policy lists of dynamic or PTR-less space
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  lists: {
+    'RATS-Spam': 60,
+    'RATS-Auth': 50,
+    'RATS-Dyna': 20,
+    'RATS-NoPtr': 10,
+    'Spamhaus-SBL': 70,
+    'Spamhaus-CSS': 50,
+    'Spamhaus-XBL': 70,
+    'Spamhaus-DROP': 100,
+    'Spamhaus-PBL-ISP': 10,
+    'Spamhaus-PBL': 10,
+    'Barracuda-BRBL': 50,
+    'SpamCop-BL': 50,
+    'UCEPROTECT-L1': 30
+  },
+  defaultListWeight: 40,
+  checks: {
+    reverseHostname: 20,
+    forwardConfirmed: 15,
+    namingConvention: 10
+  },
+  bands: { low: 1, medium: 25, high: 50, critical: 75 }
+};
+
+const isWeight = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100;
+
+/**
+ * The scoring model, with overrides from SCORING_MODEL: a JSON object with
+ * any of lists, defaultListWeight, checks and bands. Overrides are merged
+ * over the defaults, so {"lists":{"RATS-NoPtr":0}} changes one weight.
+ */
+export function loadScoringModel(env: NodeJS.ProcessEnv = process.env): ScoringModel {
+  const raw = env.SCORING_MODEL;
+  if (!raw) return DEFAULT_SCORING_MODEL;
+
+  let parsed: Partial<ScoringModel>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error('SCORING_MODEL must be valid JSON');
+  }
+
+  const model: ScoringModel = {
+    lists: { ...DEFAULT_SCORING_MODEL.lists, ...parsed.lists },
+    defaultListWeight: parsed.defaultListWeight ?? DEFAULT_SCORING_MODEL.defaultListWeight,
+    checks: { ...DEFAULT_SCORING_MODEL.checks, ...parsed.checks },
+    bands: { ...DEFAULT_SCORING_MODEL.bands, ...parsed.bands }
+  };
+  const weights = [
+    ...Object.values(model.lists),
+    model.defaultListWeight,
+    ...Object.values(model.checks),
+    ...Object.values(model.bands)
+  ];
+  if (!weights.every(isWeight)) {
+    throw new Error('SCORING_MODEL weights and band thresholds must be numbers from 0 to 100');
+  }
+  const { low, medium, high, critical } = model.bands;
+  if (!(low > 0 && low <= medium && medium <= high && high <= critical)) {
+    throw new Error('SCORING_MODEL bands must increase from low to critical, starting above 0');
+  }
+  return model;
+}
+
+// Next.js bundles each route separately, so process-wide singletons live on globalThis
+const globalScoring = globalThis as typeof globalThis & { scoringModel?: ScoringModel };
+
+// Scoring model from the environment, parsed once and shared by every lookup in the process
+export function getScoringModel(): ScoringModel {
+  if (!globalScoring.scoringModel) globalScoring.scoringModel = loadScoringModel();
+  return globalScoring.scoringModel;
+}
+
+export function severityBand(value: number, model: ScoringModel): SeverityBand {
+  const { low, medium, high, critical } = model.bands;
+  if (value >= critical) return 'critical';
+  if (value >= high) return 'high';
+  if (value >= medium) return 'medium';
+  if (value >= low) return 'low';
+  return 'clean';
+}
+
+/**
+ * Score one result. "Error" outcomes are unknown rather than bad, so they add
+ * nothing, but a result with errors and nothing else against it is banded
+ * unknown rather than clean.
+ */
+export function scoreResult(
+  result: Pick<IPLookupResponse, 'providers' | 'standardsCompliance'>,
+  model: ScoringModel
+): ReputationScore {
+  const factors: ReputationScore['factors'] = [];
+  for (const provider of result.providers) {
+    for (const status of provider.listStatuses) {
+      if (status.status === 'On the list') {
+        factors.push({ name: status.list, weight: model.lists[status.list] ?? model.defaultListWeight });
+      }
+    }
+  }
+  for (const check of COMPLIANCE_CHECKS) {
+    if (result.standardsCompliance[check] === 'Failed!') {
+      factors.push({ name: COMPLIANCE_LABELS[check], weight: model.checks[check] });
+    }
+  }
+
+  const value = Math.min(100, factors.reduce((sum, factor) => sum + factor.weight, 0));
+  const band = severityBand(value, model);
+  return {
+    value,
+    band: band === 'clean' && hasLookupErrors(result) ? 'unknown' : band,
+    factors: factors.filter(factor => factor.weight > 0)
+  };
+}
+
+// Roll up the IP scores of a run; the run's band is that of its worst IP, and unknown outranks clean
+export function scoreRun(scores: ReputationScore[]): RunScore {
+  const bands = Object.fromEntries(SEVERITY_BANDS.map(band => [band, 0])) as Record<SeverityBand, number>;
+  let worst: ReputationScore | null = null;
+  let total = 0;
+  for (const score of scores) {
+    bands[score.band]++;
+    total += score.value;
+    if (!worst || score.value > worst.value || (score.value === worst.value && worst.band === 'clean')) {
+      worst = score;
+    }
+  }
+  return {
+    average: scores.length > 0 ? Math.round(total / scores.length) : 0,
+    max: worst?.value ?? 0,
+    band: worst?.band ?? 'clean',
+    bands
+  };
+}
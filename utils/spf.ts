@@ -0,0 +1,206 @@
+// utils/spf.ts
+// Follows a domain's SPF policy (RFC 7208) to find the addresses it authorizes
+import { dnsErrorCode, isNegativeAnswer } from './dnsErrors';
+import type { RecordData, RecordKind } from './dnsResolver';
+import type { SpfReport } from './types';
+
+// RFC 7208 section 4.6.4: at most 10 terms that cause DNS lookups
+export const SPF_LOOKUP_LIMIT = 10;
+// Evaluation stops here even though the limit is only reported, so a hostile
+// record cannot make us issue unbounded queries
+const HARD_LOOKUP_LIMIT = 50;
+// RFC 7208 section 4.6.4: at most 10 MX hosts per mx mechanism
+const MX_HOST_LIMIT = 10;
+
+export type Resolve = <K extends RecordKind>(kind: K, name: string) => Promise<RecordData[K]>;
+
+// An address or network an SPF term authorizes, and the term it came from
+export interface SpfNetwork {
+  network: string;
+  origin: string;
+}
+
+interface SpfContext {
+  resolve: Resolve;
+  report: SpfReport;
+  networks: SpfNetwork[];
+  // Domains of the include/redirect chain being evaluated, to catch loops
+  chain: string[];
+}
+
+// A and AAAA addresses of a host; a missing record is not an error
+async function hostAddresses(context: SpfContext, host: string): Promise<string[]> {
+  const addresses: string[] = [];
+  for (const kind of ['A', 'AAAA'] as const) {
+    try {
+      addresses.push(...(await context.resolve(kind, host)));
+    } catch (err) {
+      if (!isNegativeAnswer(err)) {
+        context.report.errors.push(`${kind} ${host}: ${dnsErrorCode(err)}`);
+      }
+    }
+  }
+  return addresses;
+}
+
+async function fetchRecord(context: SpfContext, domain: string): Promise<string | null> {
+  let txt: string[][];
+  try {
+    txt = await context.resolve('TXT', domain);
+  } catch (err) {
+    if (!isNegativeAnswer(err)) {
+      context.report.errors.push(`TXT ${domain}: ${dnsErrorCode(err)}`);
+    }
+    return null;
+  }
+
+  const records = txt.map(chunks => chunks.join('')).filter(record => /^v=spf1(\s|$)/i.test(record));
+  if (records.length > 1) {
+    context.report.errors.push(`${domain} publishes ${records.length} SPF records`);
+  }
+  return records[0] ?? null;
+}
+
+// Count a DNS-querying term; false once the hard stop is reached
+function countLookup(context: SpfContext): boolean {
+  context.report.lookups++;
+  if (context.report.lookups > SPF_LOOKUP_LIMIT) {
+    context.report.limitExceeded = true;
+  }
+  return context.report.lookups <= HARD_LOOKUP_LIMIT;
+}
+
+async function evaluate(context: SpfContext, domain: string): Promise<void> {
+  const key = domain.toLowerCase();
+  // A domain reached twice through different includes is evaluated (and counted) each time
+  if (context.chain.includes(key)) {
+    context.report.errors.push(`SPF loop through ${domain}`);
+    return;
+  }
+  context.chain.push(key);
+  try {
+    await evaluateRecord(context, domain);
+  } finally {
+    context.chain.pop();
+  }
+}
+
+async function evaluateRecord(context: SpfContext, domain: string): Promise<void> {
+  const record = await fetchRecord(context, domain);
+  if (!record) {
+    if (context.report.records.length > 0) {
+      context.report.errors.push(`${domain} has no SPF record`);
+    }
+    return;
+  }
+  context.report.records.push({ domain, record });
+
+  const terms = record.split(/\s+/).slice(1).filter(Boolean);
+  let redirect: string | null = null;
+  const hasAll = terms.some(term => /^[+\-~?]?all$/i.test(term));
+
+  for (const term of terms) {
+    const origin = `SPF ${domain}: ${term}`;
+    const modifier = term.match(/^([a-z][a-z0-9_.-]*)=(.*)$/i);
+    if (modifier) {
+      if (modifier[1].toLowerCase() === 'redirect') redirect = modifier[2];
+      continue;
+    }
+
+    const qualifier = /^[+\-~?]/.test(term) ? term[0] : '+';
+    const body = qualifier === term[0] ? term.slice(1) : term;
+    const name = (body.match(/^[a-z0-9]+/i)?.[0] ?? '').toLowerCase();
+    const rest = body.slice(name.length);
+    const argument = rest.startsWith(':') ? rest.slice(1) : '';
+    // Only pass/neutral/softfail terms name sending addresses
+    const authorizes = qualifier !== '-';
+
+    if (argument.includes('%')) {
+      context.report.errors.push(`${origin}: macros are not expanded`);
+      if (['include', 'a', 'mx', 'ptr', 'exists'].includes(name) && !countLookup(context)) return;
+      continue;
+    }
+
+    switch (name) {
+      case 'ip4':
+      case 'ip6':
+        if (authorizes && argument) context.networks.push({ network: argument, origin });
+        break;
+      case 'a': {
+        if (!countLookup(context)) return;
+        const host = argument.replace(/\/.*$/, '') || domain;
+        if (authorizes) {
+          for (const address of await hostAddresses(context, host)) {
+            context.networks.push({ network: address, origin });
+          }
+        }
+        break;
+      }
+      case 'mx': {
+        if (!countLookup(context)) return;
+        const host = argument.replace(/\/.*$/, '') || domain;
+        let exchanges: RecordData['MX'] = [];
+        try {
+          exchanges = await context.resolve('MX', host);
+        } catch (err) {
+          if (!isNegativeAnswer(err)) context.report.errors.push(`MX ${host}: ${dnsErrorCode(err)}`);
+        }
+        if (exchanges.length > MX_HOST_LIMIT) {
+          context.report.errors.push(`${origin}: more than ${MX_HOST_LIMIT} MX hosts`);
+        }
+        if (authorizes) {
+          for (const { exchange } of exchanges.slice(0, MX_HOST_LIMIT)) {
+            for (const address of await hostAddresses(context, exchange)) {
+              context.networks.push({ network: address, origin: `${origin} (${exchange})` });
+            }
+          }
+        }
+        break;
+      }
+      case 'include':
+        if (!countLookup(context)) return;
+        if (!argument) {
+          context.report.errors.push(`${origin}: include without a domain`);
+        } else {
+          await evaluate(context, argument);
+        }
+        break;
+      case 'ptr':
+      case 'exists':
+        // Count toward the limit but name no addresses
+        if (!countLookup(context)) return;
+        break;
+      case 'all':
+        break;
+      default:
+        context.report.errors.push(`${origin}: unknown mechanism`);
+    }
+  }
+
+  // redirect= only applies when the record has no "all" of its own
+  if (redirect && !hasAll) {
+    if (!countLookup(context)) return;
+    await evaluate(context, redirect);
+  }
+}
+
+/**
+ * Walk the SPF policy of a domain, following include:, a, mx and redirect=,
+ * and collect the addresses and networks it authorizes. The report flags
+ * policies that need more than SPF_LOOKUP_LIMIT DNS lookups.
+ */
+export async function resolveSpf(domain: string, resolve: Resolve): Promise<{ report: SpfReport; networks: SpfNetwork[] }> {
+  const context: SpfContext = {
+    resolve,
+    report: { domain, record: null, records: [], lookups: 0, limitExceeded: false, errors: [] },
+    networks: [],
+    chain: []
+  };
+
+  await evaluate(context, domain);
+  context.report.record = context.report.records[0]?.domain === domain ? context.report.records[0].record : null;
+  if (context.report.lookups > HARD_LOOKUP_LIMIT) {
+    context.report.errors.push(`Stopped after ${HARD_LOOKUP_LIMIT} lookups`);
+  }
+  return { report: context.report, networks: context.networks };
+}
@@ -0,0 +1,241 @@
+// utils/types.ts
+import type { ExportMetadata } from './exports';
+
+// "Error" means the DNS query itself failed, so the real answer is unknown
+export type ListOutcome = 'On the list' | 'Not on the list' | 'Error';
+export type CheckOutcome = 'Passed!' | 'Failed!' | 'Error';
+
+export interface ListStatus {
+  list: string;
+  status: ListOutcome;
+  // DNS error code (e.g. ESERVFAIL, ETIMEOUT) when status is "Error"
+  errorCode?: string;
+  // Set when listed: the A record the zone returned (e.g. 127.0.0.38)
+  returnCode?: string;
+  // Listing explanation from the zone's TXT record, and the removal link in it
+  reason?: string;
+  delistUrl?: string;
+}
+
+export type ComplianceCheck = 'reverseHostname' | 'forwardConfirmed' | 'namingConvention';
+
+export interface StandardsCompliance {
+  // The IP has a PTR record
+  reverseHostname: CheckOutcome;
+  // FCrDNS: a PTR hostname resolves back to the IP
+  forwardConfirmed: CheckOutcome;
+  // A PTR hostname looks like a mail server rather than a generic or dynamic host
+  namingConvention: CheckOutcome;
+  // PTR hostnames found for the IP
+  hostnames: string[];
+  // Why namingConvention failed, per hostname, e.g. "dyn-1-2-3-4.example.net: embeds the IP address octets"
+  namingReasons?: string[];
+  // DNS error codes for the checks that came back as "Error"
+  errorCodes?: Partial<Record<ComplianceCheck, string>>;
+}
+
+// Severity of a reputation score, from clean (0) up; unknown when a clean score rests on lookups that errored
+export type SeverityBand = 'unknown' | 'clean' | 'low' | 'medium' | 'high' | 'critical';
+
+export interface ReputationScore {
+  // 0 (clean) to 100 (worst): the weights of the lists the IP is on and the checks it fails
+  value: number;
+  band: SeverityBand;
+  // What the score is made of, e.g. { name: 'RATS-Spam', weight: 60 }
+  factors: { name: string; weight: number }[];
+}
+
+// Roll-up of the IP scores of one run
+export interface RunScore {
+  // Mean IP score, rounded
+  average: number;
+  // Highest IP score, and its band
+  max: number;
+  band: SeverityBand;
+  // IPs per band
+  bands: Record<SeverityBand, number>;
+}
+
+export interface ProviderResult {
+  provider: string;
+  name: string;
+  zone: string;
+  listStatuses: ListStatus[];
+  // Set when the provider was not queried, e.g. an IPv6 address on an IPv4-only zone
+  skipped?: string;
+}
+
+export interface IPLookupResponse {
+  ip: string;
+  family: 4 | 6;
+  // Resolver the queries went through ("system", nameserver list or DoH/DoT URL)
+  resolver: string;
+  // True when every DNS answer behind the result came from the lookup cache
+  cached: boolean;
+  // Age in seconds of the oldest cached answer used, when cached
+  cacheAge?: number;
+  standardsCompliance: StandardsCompliance;
+  providers: ProviderResult[];
+  score: ReputationScore;
+}
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  zone: string;
+  lists: string[];
+  ipv6: boolean;
+  defaultSelected: boolean;
+}
+
+// One NDJSON line from POST /api/iplookup/batch
+export type BatchEvent =
+  | { type: 'start'; total: number; concurrency: number }
+  | { type: 'result'; index: number; result: IPLookupResponse }
+  | { type: 'error'; index: number; ip: string; error: string }
+  | { type: 'done'; completed: number; failed: number; score: RunScore };
+
+// A list status or compliance check that moved between outcomes
+export interface StatusChange {
+  ip: string;
+  checkedAt: string;
+  kind: 'list' | 'compliance';
+  // Provider id, for list changes
+  provider?: string;
+  // List name, or the compliance check (reverseHostname, forwardConfirmed, namingConvention)
+  name: string;
+  // null on the first check of a newly watched IP
+  from: string | null;
+  to: string;
+}
+
+export interface WatchlistEntry {
+  ip: string;
+  label?: string;
+  // Provider ids to check; empty means the default selection
+  providers: string[];
+  addedAt: string;
+  lastCheckedAt?: string;
+  lastResult?: IPLookupResponse;
+  // Last non-error outcome per list/check, the baseline for change detection
+  state: Record<string, string>;
+}
+
+export interface CheckRecord {
+  checkedAt: string;
+  result: IPLookupResponse;
+}
+
+export type CaseStatus = 'open' | 'requested' | 'resolved' | 'relisted';
+
+export interface CaseEvent {
+  at: string;
+  status: CaseStatus;
+  note: string;
+}
+
+// Remediation of one listing: an IP on one list of one provider
+export interface DelistingCase {
+  id: string;
+  ip: string;
+  provider: string;
+  list: string;
+  status: CaseStatus;
+  owner?: string;
+  notes: string;
+  // Remediation steps taken, oldest first
+  remediation: string[];
+  // Listing reason and removal link at the time the case was opened
+  reason?: string;
+  delistUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+  delistRequestedAt?: string;
+  resolvedAt?: string;
+  lastCheckedAt?: string;
+  lastStatus?: ListOutcome;
+  // Next automatic re-check; unset once a resolution has been confirmed
+  nextCheckAt?: string;
+  history: CaseEvent[];
+}
+
+// A lookup run stored server-side for later comparison
+export interface SavedRunSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  count: number;
+  // IPs on at least one list
+  listed: number;
+}
+
+export interface SavedRun extends SavedRunSummary {
+  results: IPLookupResponse[];
+}
+
+// A run saved as a shareable, read-only report at /reports/<id>
+export interface SavedReportSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Unset when the report never expires
+  expiresAt?: string;
+  count: number;
+  // IPs on at least one list
+  listed: number;
+  score: RunScore;
+}
+
+export interface SavedReport extends SavedReportSummary {
+  // Targets as entered: IPs, CIDR blocks, ranges or a domain
+  input: string[];
+  metadata: ExportMetadata;
+  results: IPLookupResponse[];
+}
+
+// A list or compliance outcome that differs between two runs
+export interface RunChange {
+  ip: string;
+  kind: 'list' | 'compliance';
+  // List name, or the compliance check (reverseHostname, forwardConfirmed, namingConvention)
+  name: string;
+  from: string;
+  to: string;
+}
+
+export interface RunDiff {
+  // IPs only in the newer run, and only in the older one
+  added: string[];
+  removed: string[];
+  listed: RunChange[];
+  delisted: RunChange[];
+  compliance: RunChange[];
+}
+
+export interface SpfReport {
+  domain: string;
+  // The domain's own SPF record, if it has one
+  record: string | null;
+  // Every record visited through include: and redirect=
+  records: { domain: string; record: string }[];
+  // DNS-querying terms evaluated; RFC 7208 allows at most 10
+  lookups: number;
+  limitExceeded: boolean;
+  errors: string[];
+}
+
+// An address found for a domain and where it came from (MX host, A record, SPF term)
+export interface IPSource {
+  ip: string;
+  origins: string[];
+}
+
+export interface DomainLookupResponse {
+  domain: string;
+  mx: { priority: number; exchange: string }[];
+  spf: SpfReport;
+  sources: IPSource[];
+  errors: string[];
+  results: IPLookupResponse[];
+  score: RunScore;
+}
@@ -0,0 +1,201 @@
+// utils/watchlist.ts
+import { notifyChanges } from './alerts';
+import { mapWithConcurrency, getMaxConcurrency } from './batch';
+import { selectProviders } from './dnsblProviders';
+import { parseInteger } from './env';
+import { iplookup } from './iplookup';
+import { normalizeIP } from './ipValidator';
+import { COMPLIANCE_CHECKS } from './lookupResult';
+import { createJsonStore, dataPath } from './jsonStore';
+import { errorFields, logger } from './logger';
+import type { CheckRecord, IPLookupResponse, StatusChange, WatchlistEntry } from './types';
+
+interface WatchlistData {
+  entries: WatchlistEntry[];
+  // Per-IP check results, newest last, capped at WATCHLIST_HISTORY_LIMIT
+  checks: Record<string, CheckRecord[]>;
+  // Per-IP status changes, newest last
+  changes: Record<string, StatusChange[]>;
+}
+
+export interface Timeline {
+  entry: WatchlistEntry;
+  changes: StatusChange[];
+  checks: CheckRecord[];
+}
+
+const store = createJsonStore<WatchlistData>(
+  process.env.WATCHLIST_FILE || dataPath('watchlist.json'),
+  () => ({ entries: [], checks: {}, changes: {} })
+);
+
+function historyLimit(): number {
+  return parseInteger(process.env.WATCHLIST_HISTORY_LIMIT, 'WATCHLIST_HISTORY_LIMIT', 200);
+}
+
+export async function listWatchlist(): Promise<WatchlistEntry[]> {
+  return (await store.read()).entries;
+}
+
+// Add IPs to the watchlist; IPs already on it are left unchanged
+export async function addToWatchlist(
+  ips: string[],
+  options: { label?: string; providers?: string[] } = {}
+): Promise<WatchlistEntry[]> {
+  return store.update(data => {
+    const added: WatchlistEntry[] = [];
+    for (const ip of new Set(ips.map(normalizeIP))) {
+      if (data.entries.some(entry => entry.ip === ip)) continue;
+      const entry: WatchlistEntry = {
+        ip,
+        label: options.label,
+        providers: options.providers ?? [],
+        addedAt: new Date().toISOString(),
+        state: {}
+      };
+      data.entries.push(entry);
+      added.push(entry);
+    }
+    return added;
+  });
+}
+
+export async function removeFromWatchlist(ip: string): Promise<boolean> {
+  const target = normalizeIP(ip);
+  return store.update(data => {
+    const before = data.entries.length;
+    data.entries = data.entries.filter(entry => entry.ip !== target);
+    delete data.checks[target];
+    delete data.changes[target];
+    return data.entries.length < before;
+  });
+}
+
+export async function getTimeline(ip: string): Promise<Timeline | null> {
+  const target = normalizeIP(ip);
+  const data = await store.read();
+  const entry = data.entries.find(candidate => candidate.ip === target);
+  if (!entry) return null;
+  return { entry, changes: data.changes[target] ?? [], checks: data.checks[target] ?? [] };
+}
+
+/**
+ * Compare a fresh result with the last known outcomes. "Error" outcomes are
+ * not answers, so they neither count as a change nor replace the baseline.
+ */
+export function detectChanges(
+  state: Record<string, string>,
+  result: IPLookupResponse,
+  checkedAt: string
+): { changes: StatusChange[]; state: Record<string, string> } {
+  const next = { ...state };
+  const changes: StatusChange[] = [];
+
+  const observe = (key: string, change: Omit<StatusChange, 'ip' | 'checkedAt' | 'from'>) => {
+    if (change.to === 'Error') return;
+    const from = state[key] ?? null;
+    if (from !== change.to) {
+      changes.push({ ip: result.ip, checkedAt, from, ...change });
+    }
+    next[key] = change.to;
+  };
+
+  for (const provider of result.providers) {
+    for (const status of provider.listStatuses) {
+      observe(`list:${provider.provider}:${status.list}`, {
+        kind: 'list',
+        provider: provider.provider,
+        name: status.list,
+        to: status.status
+      });
+    }
+  }
+  for (const check of COMPLIANCE_CHECKS) {
+    observe(`compliance:${check}`, { kind: 'compliance', name: check, to: result.standardsCompliance[check] });
+  }
+
+  return { changes, state: next };
+}
+
+const globalWatchlist = globalThis as typeof globalThis & {
+  // The latest run and the IPs it was asked for ("*" for all)
+  watchlistCheck?: { key: string; run: Promise<StatusChange[]> } | null;
+  watchlistTimer?: NodeJS.Timeout;
+};
+
+async function runCheck(ips?: string[]): Promise<StatusChange[]> {
+  const targets = (await listWatchlist()).filter(entry => !ips || ips.map(normalizeIP).includes(entry.ip));
+
+  const results = await mapWithConcurrency(targets, getMaxConcurrency(), async entry => {
+    let { providers } = selectProviders(entry.providers);
+    if (providers.length === 0) providers = selectProviders().providers;
+    try {
+      return await iplookup(entry.ip, providers);
+    } catch (err) {
+      return null;
+    }
+  });
+
+  const changes = await store.update(data => {
+    const changes: StatusChange[] = [];
+    const limit = historyLimit();
+
+    results.forEach(result => {
+      if (!result) return;
+      // The entry may have been removed while the lookups ran
+      const entry = data.entries.find(candidate => candidate.ip === result.ip);
+      if (!entry) return;
+
+      const checkedAt = new Date().toISOString();
+      const detected = detectChanges(entry.state, result, checkedAt);
+      entry.state = detected.state;
+      entry.lastCheckedAt = checkedAt;
+      entry.lastResult = result;
+
+      data.checks[entry.ip] = [...(data.checks[entry.ip] ?? []), { checkedAt, result }].slice(-limit);
+      data.changes[entry.ip] = [...(data.changes[entry.ip] ?? []), ...detected.changes];
+      changes.push(...detected.changes);
+    });
+
+    return changes;
+  });
+
+  try {
+    await notifyChanges(changes);
+  } catch (err) {
+    // A broken alert channel must not fail the check itself
+    logger.error('alerting_failed', { error: errorFields(err) });
+  }
+  return changes;
+}
+
+// Re-check watched IPs (all of them by default). A call for the same IPs as the
+// latest run shares it; any other call runs after it, so runs never overlap.
+export function checkWatchlist(ips?: string[]): Promise<StatusChange[]> {
+  const key = ips ? JSON.stringify([...new Set(ips.map(normalizeIP))].sort()) : '*';
+  const latest = globalWatchlist.watchlistCheck;
+  if (latest?.key === key) return latest.run;
+
+  const run: Promise<StatusChange[]> = (latest?.run.catch(() => undefined) ?? Promise.resolve())
+    .then(() => runCheck(ips))
+    .finally(() => {
+      if (globalWatchlist.watchlistCheck?.run === run) globalWatchlist.watchlistCheck = null;
+    });
+  globalWatchlist.watchlistCheck = { key, run };
+  return run;
+}
+
+// Start the periodic re-check, every WATCHLIST_INTERVAL_MINUTES (0 disables)
+export function startWatchlistScheduler(): void {
+  const minutes = parseInteger(process.env.WATCHLIST_INTERVAL_MINUTES, 'WATCHLIST_INTERVAL_MINUTES', 60);
+  // Dev-mode reloads re-run this module; keep a single timer per process
+  if (minutes === 0 || globalWatchlist.watchlistTimer) return;
+
+  globalWatchlist.watchlistTimer = setInterval(() => {
+    checkWatchlist().catch(err => {
+      // The next tick tries again
+      logger.warn('watchlist_check_failed', { error: errorFields(err) });
+    });
+  }, minutes * 60 * 1000);
+  globalWatchlist.watchlistTimer.unref();
+}